@@ -0,0 +1,57 @@
+/**
+ * Pauses for audience questions in interactive debates. After each round the
+ * flow waits here until the user either submits a question or lets the
+ * debate continue. Paused sessions are kept on globalThis, like the job
+ * queue, so they survive module reloads and are found again by debate ID from
+ * any later request.
+ */
+
+/** The speaker name audience questions appear under in the transcript. */
+export const AUDIENCE_SPEAKER = 'Audience';
+
+export const MAX_AUDIENCE_QUESTION_LENGTH = 500;
+
+// A session nobody resumes continues on its own after this long, so an
+// abandoned debate doesn't wait forever.
+const DEFAULT_PAUSE_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Resumes a paused debate with the audience's question, or null for none.
+type Resume = (question: string | null) => void;
+
+const store = globalThis as typeof globalThis & { __audienceSessions?: Map<string, Resume> };
+const sessions: Map<string, Resume> = (store.__audienceSessions ??= new Map());
+
+function pauseTimeout() {
+  return Number(process.env.HISTORICAST_PAUSE_TIMEOUT_MS) || DEFAULT_PAUSE_TIMEOUT_MS;
+}
+
+/**
+ * Pauses a debate until it is resumed. Resolves with the audience's question, or
+ * null when the user continues without one or the pause times out.
+ */
+export function waitForAudience(debateId: string): Promise<{ question: string | null; timedOut: boolean }> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      sessions.delete(debateId);
+      resolve({ question: null, timedOut: true });
+    }, pauseTimeout());
+    sessions.set(debateId, (question) => {
+      clearTimeout(timer);
+      sessions.delete(debateId);
+      resolve({ question, timedOut: false });
+    });
+  });
+}
+
+/**
+ * Resumes a paused debate, with an audience question or without one.
+ * Returns false if the debate isn't waiting for the audience.
+ */
+export function resumeDebate(debateId: string, question?: string): boolean {
+  const resume = sessions.get(debateId);
+  if (!resume) {
+    return false;
+  }
+  resume(question?.trim() || null);
+  return true;
+}
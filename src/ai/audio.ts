@@ -0,0 +1,35 @@
+/**
+ * Returns the playback length in seconds of a PCM WAV file.
+ *
+ * `wav.Writer` streams its header before it knows how much audio follows, so
+ * the declared data size is a placeholder near 4 GiB. The size is therefore
+ * capped at the bytes actually present after the `data` chunk header.
+ */
+export function getWavDuration(wavData: Buffer): number {
+  if (wavData.length < 12 || wavData.toString('ascii', 0, 4) !== 'RIFF' || wavData.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a WAV file.');
+  }
+
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= wavData.length) {
+    const chunkId = wavData.toString('ascii', offset, offset + 4);
+    const chunkSize = wavData.readUInt32LE(offset + 4);
+    const chunkStart = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      byteRate = wavData.readUInt32LE(chunkStart + 8);
+    } else if (chunkId === 'data') {
+      if (!byteRate) {
+        throw new Error('WAV data chunk precedes its format chunk.');
+      }
+      const dataSize = Math.min(chunkSize, wavData.length - chunkStart);
+      return dataSize / byteRate;
+    }
+
+    // Chunks are padded to an even number of bytes.
+    offset = chunkStart + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV file has no data chunk.');
+}
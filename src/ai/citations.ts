@@ -0,0 +1,63 @@
+import type { CorpusPassage } from '@/ai/corpus';
+
+/**
+ * Citations tie a turn to the corpus passages it drew on. Passages are shown
+ * to the speaker numbered from 1, and the speaker marks what they use with
+ * "[n]". The markers are taken out of the spoken text and turned into
+ * citations, so only passages the speaker actually referred to are cited.
+ */
+
+export type Citation = {
+  /** Title of the cited work. */
+  title: string;
+  /** File the passage comes from within the persona's corpus. */
+  source: string;
+  excerpt: string;
+  /** Where the passage sits in the source, e.g. "lines 12-18". */
+  location: string;
+};
+
+const MAX_EXCERPT_CHARS = 300;
+const MARKER = /\s*\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+function excerpt(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= MAX_EXCERPT_CHARS) {
+    return flat;
+  }
+  const cut = flat.slice(0, MAX_EXCERPT_CHARS);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)}…`;
+}
+
+export function toCitation(passage: CorpusPassage): Citation {
+  return {
+    title: passage.title,
+    source: passage.source,
+    excerpt: excerpt(passage.text),
+    location: passage.startLine === passage.endLine
+      ? `line ${passage.startLine}`
+      : `lines ${passage.startLine}-${passage.endLine}`,
+  };
+}
+
+/**
+ * Removes "[n]" markers from a turn and returns the passages they pointed to,
+ * in the order they were first cited. Markers that match no passage are
+ * dropped without a citation.
+ */
+export function extractCitations(text: string, passages: CorpusPassage[]): { text: string; citations: Citation[] } {
+  const cited: number[] = [];
+  const stripped = text.replace(MARKER, (_, numbers: string) => {
+    numbers.split(',').forEach((n) => {
+      const index = Number(n.trim()) - 1;
+      if (passages[index] && !cited.includes(index)) {
+        cited.push(index);
+      }
+    });
+    return '';
+  });
+  return {
+    text: stripped.replace(/[ \t]{2,}/g, ' ').trim(),
+    citations: cited.map((index) => toCitation(passages[index])),
+  };
+}
@@ -0,0 +1,250 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { embedTexts } from '@/ai/ollama-api';
+
+/**
+ * Per-persona corpora of primary sources for retrieval. A persona's texts live
+ * as .txt or .md files in `corpus/<personaId>/` (HISTORICAST_CORPUS_DIR moves
+ * the root). They are split into overlapping passages and embedded with a
+ * local Ollama model; the vectors are kept in an on-disk index under the data
+ * directory, which is rebuilt whenever the texts or the embedding model change.
+ */
+
+export type CorpusPassage = {
+  /** File name of the text within the persona's corpus. */
+  source: string;
+  /** Title of the work: the file's first Markdown heading, else its name. */
+  title: string;
+  text: string;
+  startLine: number;
+  endLine: number;
+};
+
+export type TextChunk = Pick<CorpusPassage, 'text' | 'startLine' | 'endLine'>;
+
+export type RetrievedPassage = CorpusPassage & {
+  /** Cosine similarity to the query. */
+  score: number;
+};
+
+type CorpusIndex = {
+  version: number;
+  personaId: string;
+  model: string;
+  builtAt: string;
+  /** Modification time of every indexed file, to detect stale indexes. */
+  sources: Record<string, number>;
+  chunks: (CorpusPassage & { embedding: number[] })[];
+};
+
+export const DEFAULT_EMBED_MODEL = 'nomic-embed-text';
+
+/** Passages retrieved per turn unless the debate asks for another number. */
+export const DEFAULT_RETRIEVAL_PASSAGES = 3;
+
+export const MAX_RETRIEVAL_PASSAGES = 10;
+
+// Bumped whenever the stored index format changes, so old indexes get rebuilt.
+const INDEX_VERSION = 2;
+const CORPUS_EXTENSIONS = ['.txt', '.md'];
+const CHUNK_CHARS = 1000;
+const CHUNK_OVERLAP = 200;
+const EMBED_BATCH_SIZE = 32;
+
+const indexes = new Map<string, CorpusIndex | null>();
+const builds = new Map<string, Promise<CorpusIndex | null>>();
+
+export function getEmbedModel(): string {
+  return process.env.HISTORICAST_EMBED_MODEL ?? DEFAULT_EMBED_MODEL;
+}
+
+function corpusRoot() {
+  return process.env.HISTORICAST_CORPUS_DIR ?? path.join(process.cwd(), 'corpus');
+}
+
+function checkPersonaId(personaId: string) {
+  if (!/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(personaId)) {
+    throw new Error(`Invalid persona ID: ${personaId}`);
+  }
+}
+
+function indexPath(personaId: string) {
+  const dataDir = process.env.HISTORICAST_DATA_DIR ?? path.join(process.cwd(), 'data');
+  return path.join(dataDir, 'index', `${personaId}.json`);
+}
+
+async function listSources(personaId: string): Promise<Record<string, number>> {
+  const dir = path.join(corpusRoot(), personaId);
+  let files: string[];
+  try {
+    files = await fs.readdir(dir);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+  const sources: Record<string, number> = {};
+  for (const file of files.filter((file) => CORPUS_EXTENSIONS.includes(path.extname(file).toLowerCase())).sort()) {
+    sources[file] = (await fs.stat(path.join(dir, file))).mtimeMs;
+  }
+  return sources;
+}
+
+/** Personas that have a corpus directory. */
+export async function listCorpusPersonas(): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(corpusRoot(), { withFileTypes: true });
+    return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name).sort();
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Splits text into passages of about CHUNK_CHARS characters that overlap by
+ * CHUNK_OVERLAP, preferring to break at paragraphs, then sentences, then words.
+ */
+export function chunkText(text: string): TextChunk[] {
+  const normalized = text.replace(/\r\n/g, '\n');
+  const lineAt = (offset: number) => normalized.slice(0, offset).split('\n').length;
+  const chunks: TextChunk[] = [];
+  let start = 0;
+  while (start < normalized.length) {
+    let end = Math.min(normalized.length, start + CHUNK_CHARS);
+    if (end < normalized.length) {
+      const window = normalized.slice(start, end);
+      const minBreak = CHUNK_CHARS / 2;
+      const breakAt = [window.lastIndexOf('\n\n'), window.search(/[.!?…](?=\s)[^.!?…]*$/) + 1, window.lastIndexOf(' ')]
+        .find((index) => index >= minBreak);
+      if (breakAt !== undefined) {
+        end = start + breakAt;
+      }
+    }
+    const raw = normalized.slice(start, end);
+    const chunk = raw.trim();
+    if (chunk) {
+      const chunkStart = start + raw.indexOf(chunk);
+      chunks.push({ text: chunk, startLine: lineAt(chunkStart), endLine: lineAt(chunkStart + chunk.length) });
+    }
+    if (end >= normalized.length) {
+      break;
+    }
+    // Step back for the overlap, but start the next passage on a word.
+    const next = normalized.indexOf(' ', end - CHUNK_OVERLAP);
+    start = next > start && next < end ? next + 1 : end;
+  }
+  return chunks;
+}
+
+function workTitle(file: string, text: string): string {
+  const heading = /^#\s+(.+)$/m.exec(text);
+  if (heading) {
+    return heading[1].trim();
+  }
+  const name = path.basename(file, path.extname(file)).replace(/[-_]+/g, ' ').trim();
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function isCurrent(index: CorpusIndex | null, model: string, sources: Record<string, number>) {
+  if (!index || index.version !== INDEX_VERSION || index.model !== model) {
+    return false;
+  }
+  const indexed = Object.keys(index.sources);
+  return indexed.length === Object.keys(sources).length
+    && indexed.every((file) => index.sources[file] === sources[file]);
+}
+
+async function readIndex(personaId: string): Promise<CorpusIndex | null> {
+  try {
+    return JSON.parse(await fs.readFile(indexPath(personaId), 'utf-8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function buildIndex(personaId: string, model: string, sources: Record<string, number>): Promise<CorpusIndex> {
+  const passages: CorpusPassage[] = [];
+  for (const file of Object.keys(sources)) {
+    const text = await fs.readFile(path.join(corpusRoot(), personaId, file), 'utf-8');
+    const title = workTitle(file, text);
+    passages.push(...chunkText(text).map((chunk) => ({ source: file, title, ...chunk })));
+  }
+
+  const chunks: CorpusIndex['chunks'] = [];
+  for (let i = 0; i < passages.length; i += EMBED_BATCH_SIZE) {
+    const batch = passages.slice(i, i + EMBED_BATCH_SIZE);
+    const embeddings = await embedTexts(model, batch.map((passage) => passage.text));
+    batch.forEach((passage, j) => chunks.push({ ...passage, embedding: embeddings[j] }));
+  }
+
+  const index: CorpusIndex = { version: INDEX_VERSION, personaId, model, builtAt: new Date().toISOString(), sources, chunks };
+  await fs.mkdir(path.dirname(indexPath(personaId)), { recursive: true });
+  await fs.writeFile(indexPath(personaId), JSON.stringify(index), 'utf-8');
+  return index;
+}
+
+/**
+ * Returns the persona's index, building or rebuilding it if the corpus has
+ * changed. Resolves to null for personas without a corpus.
+ */
+export async function getCorpusIndex(personaId: string, options: { rebuild?: boolean } = {}): Promise<CorpusIndex | null> {
+  checkPersonaId(personaId);
+  const pending = builds.get(personaId);
+  if (pending) {
+    return pending;
+  }
+
+  const build = (async () => {
+    const model = getEmbedModel();
+    const sources = await listSources(personaId);
+    if (Object.keys(sources).length === 0) {
+      return null;
+    }
+    const cached = indexes.has(personaId) ? indexes.get(personaId)! : await readIndex(personaId);
+    if (!options.rebuild && isCurrent(cached, model, sources)) {
+      return cached;
+    }
+    return buildIndex(personaId, model, sources);
+  })();
+
+  builds.set(personaId, build);
+  try {
+    const index = await build;
+    indexes.set(personaId, index);
+    return index;
+  } finally {
+    builds.delete(personaId);
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/** The passages of a persona's corpus most similar to the query, best first. */
+export async function retrievePassages(personaId: string, query: string, limit: number): Promise<RetrievedPassage[]> {
+  const index = await getCorpusIndex(personaId);
+  if (!index || index.chunks.length === 0 || limit <= 0) {
+    return [];
+  }
+  const [queryEmbedding] = await embedTexts(index.model, [query]);
+  return index.chunks
+    .map(({ embedding, ...passage }) => ({ ...passage, score: cosineSimilarity(queryEmbedding, embedding) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,125 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type {
+  GenerateHistoricalDebateInput,
+  GenerateHistoricalDebateOutput,
+} from '@/ai/flows/generate-historical-debate';
+import { getDebateStorage, isValidDebateId } from '@/ai/storage';
+import type { GenerationConfig } from '@/ai/generation-config';
+
+/** Voice, models and sampling settings a speaker used in a stored debate. */
+export type DebateSpeakerRecord = {
+  id: string;
+  name: string;
+  voiceId: string;
+  model: string;
+  /** Models the speaker could fall back to, in order. */
+  fallbackModels?: string[];
+  /** The sampling settings the speaker's turns were generated with. */
+  generationConfig?: GenerationConfig;
+};
+
+/** A participant's system prompt before and after refinement against source texts. */
+export type PromptEnhancementRecord = {
+  personaId: string;
+  name: string;
+  before: string;
+  after: string;
+};
+
+export type DebateRecord = {
+  id: string;
+  createdAt: string;
+  completedAt: string;
+  input: GenerateHistoricalDebateInput;
+  moderator: DebateSpeakerRecord;
+  participants: DebateSpeakerRecord[];
+  /** Absent for debates run without source texts. */
+  promptEnhancements?: PromptEnhancementRecord[];
+  ttsProvider: 'gemini' | 'elevenlabs' | null;
+  data: GenerateHistoricalDebateOutput['data'];
+};
+
+export type DebateRecordSummary = Pick<DebateRecord, 'id' | 'createdAt' | 'completedAt'> & {
+  topic: string;
+  rounds: number;
+  participants: string[];
+  hasPodcast: boolean;
+};
+
+// Each debate is stored as one JSON file. Audio stays in the debate's public/
+// storage namespace and is referenced from the record by path.
+function recordsDir() {
+  return path.join(process.env.HISTORICAST_DATA_DIR ?? path.join(process.cwd(), 'data'), 'debates');
+}
+
+function recordPath(id: string) {
+  if (!isValidDebateId(id)) {
+    throw new Error(`Invalid debate ID: ${id}`);
+  }
+  return path.join(recordsDir(), `${id}.json`);
+}
+
+export async function saveDebateRecord(record: DebateRecord): Promise<void> {
+  await fs.mkdir(recordsDir(), { recursive: true });
+  await fs.writeFile(recordPath(record.id), JSON.stringify(record, null, 2), 'utf-8');
+}
+
+export async function getDebateRecord(id: string): Promise<DebateRecord | null> {
+  if (!isValidDebateId(id)) {
+    return null;
+  }
+  try {
+    return JSON.parse(await fs.readFile(recordPath(id), 'utf-8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function listDebateRecords(): Promise<DebateRecordSummary[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(recordsDir());
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const records = await Promise.all(
+    files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => getDebateRecord(path.basename(file, '.json')))
+  );
+
+  return records
+    .filter((record): record is DebateRecord => record !== null)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map((record) => ({
+      id: record.id,
+      createdAt: record.createdAt,
+      completedAt: record.completedAt,
+      topic: record.input.topic,
+      rounds: record.input.rounds,
+      participants: record.participants.map((p) => p.name),
+      hasPodcast: Boolean(record.data.podcast),
+    }));
+}
+
+/**
+ * Deletes a debate record together with its audio directory. Returns false if
+ * no such debate exists.
+ */
+export async function deleteDebateRecord(id: string): Promise<boolean> {
+  const record = await getDebateRecord(id);
+  if (!record) {
+    return false;
+  }
+  await fs.rm(getDebateStorage(id).dir, { recursive: true, force: true });
+  await fs.unlink(recordPath(id));
+  return true;
+}
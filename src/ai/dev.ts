@@ -2,4 +2,5 @@ import { config } from 'dotenv';
 config();
 
 import '@/ai/flows/generate-historical-debate.ts';
-import '@/ai/flows/enhance-historical-accuracy.ts';
\ No newline at end of file
+import '@/ai/flows/enhance-historical-accuracy.ts';
+import '@/ai/flows/check-anachronisms.ts';
@@ -0,0 +1,87 @@
+'use server';
+
+/**
+ * @fileOverview Flow to review a debate turn for anachronisms: concepts, discoveries or events the speaking persona could not have known about.
+ *
+ * - checkAnachronisms - A function that lists the anachronisms in a single turn.
+ * - CheckAnachronismsInput - The input type for the checkAnachronisms function.
+ * - CheckAnachronismsOutput - The return type for the checkAnachronisms function.
+ * - AnachronismFinding - One anachronistic concept found in a turn.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {generateWithFallback} from '@/ai/model-registry';
+import {resolveRetryPolicy} from '@/ai/llm-call';
+import {GenerationConfigSchema, RetryPolicySchema} from '@/lib/schemas';
+
+const CheckAnachronismsInputSchema = z.object({
+  topic: z.string().describe('The topic of the debate.'),
+  speaker: z.string().describe('The name of the persona who spoke the turn.'),
+  systemPrompt: z
+    .string()
+    .describe("The persona's system prompt, which states their lifespan and the limits of their knowledge."),
+  text: z.string().describe('The turn to review.'),
+  models: z
+    .array(z.string())
+    .min(1)
+    .describe('The models that may perform the review, e.g. ollama/mistral, in the order to try them.'),
+  retryPolicy: RetryPolicySchema.optional()
+    .describe('Time limit and retries for the model call. Uses the default policy when omitted.'),
+  config: GenerationConfigSchema.optional()
+    .describe("Sampling settings for the model call. Uses the provider's defaults when omitted."),
+});
+export type CheckAnachronismsInput = z.infer<typeof CheckAnachronismsInputSchema>;
+
+const AnachronismFindingSchema = z.object({
+  concept: z.string().describe('The anachronistic concept, discovery or event, as mentioned in the turn.'),
+  reason: z.string().describe('Why the speaker could not have known about it.'),
+});
+export type AnachronismFinding = z.infer<typeof AnachronismFindingSchema>;
+
+// What the model is asked for.
+const ReviewSchema = z.object({
+  findings: z.array(AnachronismFindingSchema).describe('Anachronisms in the turn. Empty if there are none.'),
+});
+
+const CheckAnachronismsOutputSchema = ReviewSchema.extend({
+  retries: z.number().describe('How many times the model call was retried.'),
+});
+export type CheckAnachronismsOutput = z.infer<typeof CheckAnachronismsOutputSchema>;
+
+export async function checkAnachronisms(
+  input: CheckAnachronismsInput
+): Promise<CheckAnachronismsOutput> {
+  return checkAnachronismsFlow(input);
+}
+
+const checkAnachronismsPrompt = ai.definePrompt({
+  name: 'checkAnachronismsPrompt',
+  input: {schema: CheckAnachronismsInputSchema},
+  output: {schema: ReviewSchema},
+  prompt: `You are a historian reviewing a line spoken by {{{speaker}}} in a debate about {{{topic}}}.\n\nPersona description, including their lifespan and the limits of their knowledge:\n{{{systemPrompt}}}\n\nLine:\n{{{text}}}\n\nList every concept, discovery, invention, event or person the line mentions that {{{speaker}}} could not have known about: anything from after their death, or anything the persona description says they do not know. Speculation about the future that stays within their era's ideas is not an anachronism. If there are none, return an empty list.`,
+});
+
+const checkAnachronismsFlow = ai.defineFlow(
+  {
+    name: 'checkAnachronismsFlow',
+    inputSchema: CheckAnachronismsInputSchema,
+    outputSchema: CheckAnachronismsOutputSchema,
+  },
+  async input => {
+    const {response, retries} = await generateWithFallback(
+      input.models,
+      {
+        ...(await checkAnachronismsPrompt.render(input)),
+        config: input.config,
+        output: {schema: ReviewSchema},
+      },
+      {policy: resolveRetryPolicy(input.retryPolicy)}
+    );
+    const output = response.output as z.infer<typeof ReviewSchema> | null;
+    return {
+      findings: output?.findings ?? [],
+      retries,
+    };
+  }
+);
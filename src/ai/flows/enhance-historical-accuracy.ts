@@ -10,6 +10,9 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {generateWithFallback} from '@/ai/model-registry';
+import {callWithRetries, resolveRetryPolicy} from '@/ai/llm-call';
+import {GenerationConfigSchema, RetryPolicySchema} from '@/lib/schemas';
 
 const EnhanceHistoricalAccuracyInputSchema = z.object({
   topic: z.string().describe('The topic of the debate.'),
@@ -19,14 +22,29 @@ const EnhanceHistoricalAccuracyInputSchema = z.object({
       'An array of historical texts related to the debate topic for fine-tuning the LLM.'
     ),
   prompt: z.string().describe('The prompt to be used for the debate.'),
+  models: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'The models that may refine the prompt, e.g. ollama/mistral, in the order to try them. Uses the default model when omitted.'
+    ),
+  retryPolicy: RetryPolicySchema.optional()
+    .describe('Time limit and retries for the model call. Uses the default policy when omitted.'),
+  config: GenerationConfigSchema.optional()
+    .describe("Sampling settings for the model call. Uses the provider's defaults when omitted."),
 });
 export type EnhanceHistoricalAccuracyInput = z.infer<
   typeof EnhanceHistoricalAccuracyInputSchema
 >;
 
-const EnhanceHistoricalAccuracyOutputSchema = z.object({
+// What the model is asked for.
+const EnhancedPromptSchema = z.object({
   enhancedPrompt: z.string().describe('The prompt after fine-tuning.'),
 });
+
+const EnhanceHistoricalAccuracyOutputSchema = EnhancedPromptSchema.extend({
+  retries: z.number().describe('How many times the model call was retried.'),
+});
 export type EnhanceHistoricalAccuracyOutput = z.infer<
   typeof EnhanceHistoricalAccuracyOutputSchema
 >;
@@ -40,7 +58,7 @@ export async function enhanceHistoricalAccuracy(
 const enhanceHistoricalAccuracyPrompt = ai.definePrompt({
   name: 'enhanceHistoricalAccuracyPrompt',
   input: {schema: EnhanceHistoricalAccuracyInputSchema},
-  output: {schema: EnhanceHistoricalAccuracyOutputSchema},
+  output: {schema: EnhancedPromptSchema},
   prompt: `You are an AI expert in refining prompts for historical accuracy.  Based on the provided historical texts related to the debate topic, refine the original prompt to minimize anachronisms and ensure the generated content is as historically accurate as possible.\n\nDebate Topic: {{{topic}}}\nOriginal Prompt: {{{prompt}}}\n\nHistorical Texts:\n{{#each historicalTexts}}\n{{{this}}}\n{{/each}}\n\nRevised Prompt:`, // Provide clear instructions for prompt refinement.
 });
 
@@ -51,9 +69,26 @@ const enhanceHistoricalAccuracyFlow = ai.defineFlow(
     outputSchema: EnhanceHistoricalAccuracyOutputSchema,
   },
   async input => {
-    const {output} = await enhanceHistoricalAccuracyPrompt(input);
+    let retries = 0;
+    const policy = resolveRetryPolicy(input.retryPolicy);
+    const {output} = input.models?.length
+      ? await generateWithFallback(
+          input.models,
+          {
+            ...(await enhanceHistoricalAccuracyPrompt.render(input)),
+            config: input.config,
+            output: {schema: EnhancedPromptSchema},
+          },
+          {policy, onRetry: () => retries++}
+        ).then(result => result.response)
+      : await callWithRetries(
+          abortSignal => enhanceHistoricalAccuracyPrompt(input, {config: input.config, abortSignal}),
+          policy,
+          () => retries++
+        );
     return {
       enhancedPrompt: output!.enhancedPrompt,
+      retries,
     };
   }
 );
@@ -7,17 +7,57 @@
  * - generateHistoricalDebate - A function to generate the debate podcast.
  * - GenerateHistoricalDebateInput - The input type for the generateHistoricalDebate function.
  * - GenerateHistoricalDebateOutput - The return type for the generateHistoricalDebate function.
+ * - DebateStreamChunk - A progress event emitted while the debate is being generated.
  */
 
 import {ai} from '@/ai/genkit';
-import {z} from 'genkit';
+import {z, type GenerateOptions} from 'genkit';
 import {promises as fs} from 'fs';
+import os from 'os';
 import path from 'path';
+import {randomUUID} from 'crypto';
 import {promisify} from 'util';
 import {exec} from 'child_process';
 import wav from 'wav';
 import personas from '@/ai/personas.js';
-import { ollama } from 'genkitx-ollama';
+import { createDebateId, getDebateStorage, isValidDebateId } from '@/ai/storage';
+import { saveDebateRecord, type PromptEnhancementRecord } from '@/ai/debate-store';
+import { getWavDuration } from '@/ai/audio';
+import { formatTimestamp } from '@/lib/utils';
+import { createSeed, createTurnOrder, DEFAULT_TURN_ORDER, MAX_SEED, TURN_ORDER_STRATEGIES } from '@/ai/turn-order';
+import {
+  checkTurnLength,
+  countWords,
+  DEFAULT_TURN_LENGTH,
+  describeWordRange,
+  resolveTurnLength,
+  trimToWordLimit,
+} from '@/ai/turn-length';
+import {
+  buildTranscriptContext,
+  DEFAULT_CONTEXT_TOKENS,
+  DEFAULT_RECENT_TURNS,
+  resolveContextBudget,
+  roundsToSummarize,
+  type ContextTurn,
+  type RoundSummary,
+} from '@/ai/transcript-context';
+import { countFormatRounds, DEBATE_FORMAT_IDS, DEBATE_FORMATS, DEFAULT_DEBATE_FORMAT, resolveFormatPhases, type DebatePhase } from '@/ai/formats';
+import { checkAnachronisms, type AnachronismFinding } from '@/ai/flows/check-anachronisms';
+import { enhanceHistoricalAccuracy } from '@/ai/flows/enhance-historical-accuracy';
+import { MAX_HISTORICAL_TEXT_LENGTH, MAX_HISTORICAL_TEXTS } from '@/ai/sources';
+import { DEFAULT_RETRIEVAL_PASSAGES, MAX_RETRIEVAL_PASSAGES, retrievePassages, type CorpusPassage } from '@/ai/corpus';
+import { extractCitations } from '@/ai/citations';
+import { buildSystemPrompt, type Persona } from '@/ai/persona';
+import { DEBATE_LANGUAGES, DEFAULT_DEBATE_LANGUAGE, isWrongLanguage, LANGUAGE_NAMES, type DebateLanguage } from '@/ai/languages';
+import { AUDIENCE_SPEAKER, waitForAudience } from '@/ai/audience';
+import { describeStance, groupBySide, STANCES, type StanceAssignment } from '@/ai/stances';
+import { elevenLabsModelFor, isValidVoice, TTS_PROVIDER_LABELS, voicesFor, type TtsProvider } from '@/ai/voices';
+import { generateWithFallback, isProviderConfigured, resolveModel } from '@/ai/model-registry';
+import { resolveRetryPolicy } from '@/ai/llm-call';
+import { GenerationConfigSchema, RetryPolicySchema, TurnLengthSchema } from '@/lib/schemas';
+import { mergeGenerationConfig, samplingSettings } from '@/ai/generation-config';
+import { personaModels } from '@/ai/models';
 import { googleAI } from '@genkit-ai/googleai';
 
 const execAsync = promisify(exec);
@@ -26,40 +66,174 @@ const PersonaSchema = z.object({
   name: z.string(),
   systemPrompt: z.string(),
   voiceId: z.string(),
-  ollamaModel: z.string(),
+  model: z.string().describe('Provider-qualified model reference, e.g. ollama/mistral.'),
+  fallbackModels: z.array(z.string()).optional().describe('Models to try in order when `model` is unavailable.'),
+  turnLength: TurnLengthSchema.optional().describe('Overrides the debate\'s turn length for this persona.'),
+  generationConfig: GenerationConfigSchema.optional().describe('Overrides the debate\'s sampling settings for this persona.'),
 });
 
 const PersonasSchema = z.record(PersonaSchema);
 
+// The part of the transcript that prompts get to see.
+const PromptTranscriptSchema = z.array(
+  z.object({
+    speaker: z.string(),
+    text: z.string(),
+    audioFile: z.string().optional(),
+  })
+);
+
+// How many times a turn with anachronisms is regenerated unless the input
+// says otherwise.
+const DEFAULT_ANACHRONISM_RETRIES = 2;
+
 // Define the input schema
 const GenerateHistoricalDebateInputSchema = z.object({
   topic: z.string().describe('The topic of the debate.'),
   rounds: z.number().int().min(1).describe('The number of debate rounds.'),
   participants: z.array(z.string()).min(2).describe('An array of participant IDs (keys from the personas object).'),
   generateAudio: z.boolean().describe('Whether to generate audio for the debate.'),
+  turnOrder: z.enum(TURN_ORDER_STRATEGIES).optional().describe(`How participants are ordered within each round. Defaults to ${DEFAULT_TURN_ORDER}.`),
+  seed: z.number().int().min(0).max(MAX_SEED).optional().describe('Seed for the turn order. Generated when omitted; reuse it to reproduce a speaking order.'),
+  format: z.enum(DEBATE_FORMAT_IDS).optional().describe(`The debate format, which decides the phases the debate runs through. Defaults to ${DEFAULT_DEBATE_FORMAT}.`),
+  crossExamination: z.boolean().optional().describe('Add a cross-examination phase, in which participants question each other directly, to formats that lack one.'),
+  turnLength: TurnLengthSchema.optional().describe(`How long each turn should be: a preset or a word range. Personas may override it. Defaults to ${DEFAULT_TURN_LENGTH}.`),
+  context: z.object({
+    recentTurns: z.number().int().min(1).max(50).optional().describe(`Turns kept verbatim at the end of the transcript. Defaults to ${DEFAULT_RECENT_TURNS}.`),
+    maxTokens: z.number().int().min(100).optional().describe(`Transcript budget per prompt in estimated tokens. Defaults to ${DEFAULT_CONTEXT_TOKENS}.`),
+    maxChars: z.number().int().min(400).optional().describe('Transcript budget per prompt in characters. Takes precedence over maxTokens.'),
+  }).optional().describe('How much of the transcript prompts see. Older rounds are summarized once the transcript outgrows the budget.'),
+  generationConfig: GenerationConfigSchema.optional().describe('Sampling settings for every model call: temperature, topP, maxOutputTokens, seed and stop sequences. Personas may override them. Unset values are left to the provider.'),
+  retryPolicy: RetryPolicySchema.optional().describe('Time limit and retries for every model call in the debate.'),
+  anachronismCheck: z.boolean().optional().describe('Review each participant turn for concepts the persona could not have known about, and regenerate flagged turns. Each check is an extra model call per turn, and each regeneration two more. Defaults to false.'),
+  anachronismRetries: z.number().int().min(0).max(5).optional().describe(`How many times a turn with anachronisms is regenerated. Defaults to ${DEFAULT_ANACHRONISM_RETRIES}.`),
+  historicalTexts: z.array(z.string().min(1).max(MAX_HISTORICAL_TEXT_LENGTH)).max(MAX_HISTORICAL_TEXTS).optional().describe('Letters, essays, speeches or other sources on the topic. Each participant\'s prompt is refined against them before the debate starts.'),
+  retrievalPassages: z.number().int().min(0).max(MAX_RETRIEVAL_PASSAGES).optional().describe(`Passages retrieved from a participant's source corpus before each of their turns. 0 disables retrieval. Defaults to ${DEFAULT_RETRIEVAL_PASSAGES}.`),
+  motion: z.string().trim().min(3).optional().describe('A motion for participants to argue for or against, e.g. "This house believes machines will free mankind".'),
+  stances: z.record(z.enum(STANCES)).optional().describe('Stances on the motion by participant ID. Participants without one are assigned a stance by the moderator from what they historically believed.'),
+  language: z.enum(DEBATE_LANGUAGES).optional().describe(`The language every turn is spoken in. It also decides which TTS voices can be used. Defaults to ${DEFAULT_DEBATE_LANGUAGE}.`),
+  interactive: z.boolean().optional().describe('Pause after every round but the last until the debate is resumed with `resumeDebate`, optionally with an audience question that is put to the participants in the next round.'),
+  moderation: z.enum(['open', 'directed']).optional().describe('How moderated rounds run. open: every participant answers each question. directed: the moderator picks who answers and whether others may rebut. Defaults to open.'),
+  debateId: z.string().refine(isValidDebateId, 'Invalid debate ID.').optional().describe('Identifier of the debate\'s storage namespace. Generated when omitted.'),
 });
 
 export type GenerateHistoricalDebateInput = z.infer<typeof GenerateHistoricalDebateInputSchema>;
 
+const TranscriptItemSchema = z.object({
+  id: z.string(),
+  speaker: z.string(),
+  text: z.string(),
+  questionTo: z.string().optional().describe('For a cross-examination question: the ID of the participant being asked.'),
+  answerTo: z.string().optional().describe('For an answer in cross-examination: the ID of the question turn it answers.'),
+  audioFile: z.string().optional(),
+  startTime: z.number().optional().describe('Offset of the turn in the podcast, in seconds.'),
+  endTime: z.number().optional().describe('End of the turn in the podcast, in seconds.'),
+  anachronisms: z.object({
+    findings: z.array(
+      z.object({
+        concept: z.string(),
+        reason: z.string(),
+      })
+    ),
+    regenerations: z.number().describe('How many times the turn was regenerated to remove them.'),
+    resolved: z.boolean().describe('Whether the final text is free of them.'),
+  }).optional().describe('Anachronisms found in a participant turn. Absent if the turn was clean or not checked.'),
+  citations: z.array(
+    z.object({
+      title: z.string().describe('Title of the cited work.'),
+      source: z.string().describe('File the passage comes from in the persona\'s corpus.'),
+      excerpt: z.string(),
+      location: z.string().describe('Where the passage sits in the source, e.g. "lines 12-18".'),
+    })
+  ).optional().describe('Corpus passages the turn drew on.'),
+  model: z.string().optional().describe('The model that produced the turn, which may be one of the speaker\'s fallbacks.'),
+});
+
 // Define the output schema
 const GenerateHistoricalDebateOutputSchema = z.object({
   status: z.string(),
   data: z.object({
-    transcript: z.array(
+    id: z.string(),
+    transcript: z.array(TranscriptItemSchema),
+    summaries: z.array(
       z.object({
-        speaker: z.string(),
+        round: z.number(),
         text: z.string(),
-        audioFile: z.string().optional(),
       })
-    ),
+    ).optional().describe('Round summaries that replaced older turns in the prompts.'),
+    motion: z.string().optional(),
+    stances: z.array(
+      z.object({
+        participantId: z.string(),
+        name: z.string(),
+        stance: z.enum(STANCES),
+        assignedBy: z.enum(['user', 'moderator']),
+        reason: z.string().optional(),
+      })
+    ).optional().describe('The side each participant argued on the motion.'),
     podcast: z.string(),
     duration: z.string(),
+    durationSeconds: z.number(),
     audioGenerated: z.boolean(),
+    format: z.enum(DEBATE_FORMAT_IDS),
+    turnOrder: z.object({
+      strategy: z.enum(TURN_ORDER_STRATEGIES),
+      seed: z.number(),
+      rounds: z.array(z.array(z.string())).describe('The participant IDs in the order they spoke, per round.'),
+    }),
+    modelCalls: z.object({
+      calls: z.number().describe('Model calls that produced text for the debate.'),
+      retries: z.number().describe('Retries those calls needed in all.'),
+    }).optional().describe('How many model calls the debate took. Absent until it is complete.'),
   }),
 });
 
 export type GenerateHistoricalDebateOutput = z.infer<typeof GenerateHistoricalDebateOutputSchema>;
 
+type TranscriptItem = z.infer<typeof TranscriptItemSchema>;
+type TurnDetails = Pick<TranscriptItem, 'questionTo' | 'answerTo' | 'anachronisms' | 'citations' | 'model'>;
+type AnachronismReview = NonNullable<TranscriptItem['anachronisms']>;
+
+// Streamed while the flow runs: a `turn` as soon as its text exists, then an
+// `audio` event for the same index once its clip has been written, or a
+// `clipFailed` event if it couldn't be. `progress` and `warning` events
+// describe what the flow is doing and what it skipped.
+const DebateStreamChunkSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('progress'),
+    stage: z.enum(['enhance', 'stances', 'intro', 'round', 'outro', 'tts', 'ffmpeg']),
+    round: z.number().optional(),
+    speaker: z.string().optional(),
+    message: z.string(),
+  }),
+  z.object({
+    type: z.literal('warning'),
+    message: z.string(),
+  }),
+  z.object({
+    type: z.literal('paused'),
+    round: z.number().describe('The round the debate paused after.'),
+    message: z.string(),
+  }),
+  z.object({
+    type: z.literal('turn'),
+    index: z.number(),
+    turn: TranscriptItemSchema.omit({ audioFile: true, startTime: true, endTime: true }),
+  }),
+  z.object({
+    type: z.literal('audio'),
+    index: z.number(),
+    audioFile: z.string(),
+  }),
+  z.object({
+    type: z.literal('clipFailed'),
+    index: z.number(),
+    message: z.string(),
+  }),
+]);
+
+export type DebateStreamChunk = z.infer<typeof DebateStreamChunkSchema>;
+
 // Define the tool to synthesize speech using ElevenLabs API
 const synthesizeSpeechElevenLabs = ai.defineTool(
   {
@@ -68,6 +242,7 @@ const synthesizeSpeechElevenLabs = ai.defineTool(
     inputSchema: z.object({
       text: z.string().describe('The text to synthesize.'),
       voiceId: z.string().describe('The ID of the ElevenLabs voice to use.'),
+      language: z.enum(DEBATE_LANGUAGES).optional().describe('The language of the text, which picks the ElevenLabs model.'),
     }),
     outputSchema: z.string().describe('The base64 encoded audio data in WAV format.'),
   },
@@ -84,7 +259,7 @@ const synthesizeSpeechElevenLabs = ai.defineTool(
     };
     const body = JSON.stringify({
       text: input.text,
-      model_id: 'eleven_monolingual_v1',
+      model_id: elevenLabsModelFor(input.language ?? DEFAULT_DEBATE_LANGUAGE),
       voice_settings: {
         stability: 0.5,
         similarity_boost: 0.5,
@@ -154,8 +329,9 @@ const synthesizeSpeechLocal = ai.defineTool(
 
 
 async function convertMp3ToPcm(mp3Data: Buffer): Promise<Buffer> {
-    const tempInPath = path.join(process.cwd(), `temp-in-${Date.now()}.mp3`);
-    const tempOutPath = path.join(process.cwd(), `temp-out-${Date.now()}.s16le`);
+    const tempId = randomUUID();
+    const tempInPath = path.join(os.tmpdir(), `historicast-${tempId}.mp3`);
+    const tempOutPath = path.join(os.tmpdir(), `historicast-${tempId}.s16le`);
     try {
         await fs.writeFile(tempInPath, mp3Data);
         // Use ffmpeg to convert mp3 to pcm s16le
@@ -207,13 +383,18 @@ const debatePrompt = ai.definePrompt({
       topic: z.string(),
       persona: PersonaSchema,
       round: z.number(),
-      transcript: z.array(
+      stance: z.string().optional(),
+      cue: z.string().optional(),
+      passages: z.array(
         z.object({
-          speaker: z.string(),
+          number: z.number(),
+          title: z.string(),
           text: z.string(),
-          audioFile: z.string().optional(),
         })
-      ),
+      ).optional(),
+      length: z.string(),
+      language: z.string(),
+      transcript: PromptTranscriptSchema,
     })
   },
   output: {
@@ -221,13 +402,63 @@ const debatePrompt = ai.definePrompt({
   },
   prompt: `{{{persona.systemPrompt}}}\n
 You are participating in a debate about {{{topic}}}. This is round {{{round}}}.\n
+{{#if stance}}{{{stance}}}\n{{/if}}
 The moderator just asked a question or made a statement. Respond to the moderator and other participants.\n
+{{#if cue}}{{{cue}}}\n{{/if}}
+{{#if passages}}Passages from your own writings that bear on this:
+{{#each passages}}
+[{{{number}}}] {{{title}}}: {{{text}}}
+{{/each}}
+Ground your answer in them where they fit, speaking in your own voice rather than quoting at length. Put a passage's number in square brackets after each sentence that draws on it, like [1].\n
+{{/if}}
 Previous turns:
 {{#each transcript}}
 {{{speaker}}}: {{{text}}}
 {{/each}}
 
-Respond with 1-2 sentences.`,
+Respond in {{{length}}}. Speak only in {{{language}}}.`,
+});
+
+// Participant names grouped by their side on the motion.
+const SidesSchema = z.array(
+  z.object({
+    side: z.string(),
+    names: z.array(z.string()),
+  })
+);
+
+const StanceAssignmentsSchema = z.object({
+  assignments: z.array(
+    z.object({
+      name: z.string().describe('The participant\'s name.'),
+      stance: z.enum(STANCES),
+      reason: z.string().describe('What the figure believed that puts them on this side.'),
+    })
+  ),
+});
+
+const assignStancesPrompt = ai.definePrompt({
+    name: 'assignStancesPrompt',
+    input: {
+        schema: z.object({
+            motion: z.string(),
+            participants: z.array(PersonaSchema),
+            assigned: z.array(
+              z.object({
+                name: z.string(),
+                stance: z.enum(STANCES),
+              })
+            ),
+        }),
+    },
+    output: { schema: StanceAssignmentsSchema },
+    prompt: `You are preparing a debate on the motion: {{{motion}}}.
+{{#if assigned}}Already assigned: {{#each assigned}}{{{name}}} ({{{stance}}}){{#unless @last}}, {{/unless}}{{/each}}.
+{{/if}}For each of the following historical figures, decide whether they would argue for the motion (pro), against it (con), or stay neutral, based on what they actually believed and wrote:
+{{#each participants}}
+- {{{name}}}
+{{/each}}
+Prefer pro or con over neutral, and make sure both sides are represented when the figures' views allow it. Give a one-sentence reason for each.`,
 });
 
 const moderatorIntroPrompt = ai.definePrompt({
@@ -236,13 +467,24 @@ const moderatorIntroPrompt = ai.definePrompt({
         schema: z.object({
             topic: z.string(),
             participants: z.array(PersonaSchema),
+            format: z.object({
+                label: z.string(),
+                description: z.string(),
+            }),
+            motion: z.string().optional(),
+            sides: SidesSchema.optional(),
+            length: z.string(),
+            language: z.string(),
         }),
     },
     output: { schema: z.string() },
     prompt: `You are the moderator of a debate.
 Topic: {{{topic}}}.
 Participants: {{#each participants}}{{{name}}}{{#unless @last}}, {{/unless}}{{/each}}.
-Introduce the topic and the participants in 1-2 sentences.`,
+Format: {{{format.label}}}. {{{format.description}}}
+{{#if motion}}Motion: {{{motion}}}
+Sides: {{#each sides}}{{{side}}}: {{#each names}}{{{this}}}{{#unless @last}}, {{/unless}}{{/each}}{{#unless @last}}; {{/unless}}{{/each}}.
+Introduce the topic, the motion, the format and the participants, naming who argues on which side, in {{{length}}}.{{else}}Introduce the topic, the format and the participants in {{{length}}}.{{/if}} Speak only in {{{language}}}.`,
 });
 
 const moderatorTransitionPrompt = ai.definePrompt({
@@ -251,61 +493,236 @@ const moderatorTransitionPrompt = ai.definePrompt({
         schema: z.object({
             topic: z.string(),
             round: z.number(),
-            transcript: z.array(
-                z.object({
-                    speaker: z.string(),
-                    text: z.string(),
-                    audioFile: z.string().optional(),
-                })
-            ),
+            audienceQuestion: z.string().optional(),
+            length: z.string(),
+            language: z.string(),
+            transcript: PromptTranscriptSchema,
         }),
     },
     output: { schema: z.string() },
     prompt: `You are the moderator of a debate on the topic: {{{topic}}}.
 It is the beginning of round {{{round}}}.
-Review the transcript and ask a follow-up question to the participants to keep the debate moving. Keep it to one sentence.
+{{#if audienceQuestion}}A member of the audience has asked: "{{{audienceQuestion}}}". Put their question to the participants in your own words. Keep it to {{{length}}}. Speak only in {{{language}}}.
+{{else}}Review the transcript and ask a follow-up question to the participants to keep the debate moving. Keep it to {{{length}}}. Speak only in {{{language}}}.
+{{/if}}Previous turns:
+{{#each transcript}}
+{{{speaker}}}: {{{text}}}
+{{/each}}`,
+});
+
+// Used in directed moderation: the moderator decides who answers.
+const ModeratorDirectionSchema = z.object({
+  question: z.string().describe('The question or statement to put to the debaters.'),
+  addressedTo: z.array(z.string()).describe('Names of the participants who should answer first.'),
+  followUpTarget: z.string().optional().describe('Name of a participant invited to follow up on the answers.'),
+  inviteRebuttals: z.boolean().describe('Whether the remaining participants are invited to rebut.'),
+});
+
+const moderatorDirectedTransitionPrompt = ai.definePrompt({
+    name: 'moderatorDirectedTransitionPrompt',
+    input: {
+        schema: z.object({
+            topic: z.string(),
+            round: z.number(),
+            participants: z.array(PersonaSchema),
+            audienceQuestion: z.string().optional(),
+            length: z.string(),
+            language: z.string(),
+            transcript: PromptTranscriptSchema,
+        }),
+    },
+    output: { schema: ModeratorDirectionSchema },
+    prompt: `You are the moderator of a debate on the topic: {{{topic}}}.
+It is the beginning of round {{{round}}}.
+Participants: {{#each participants}}{{{name}}}{{#unless @last}}, {{/unless}}{{/each}}.
+{{#if audienceQuestion}}A member of the audience has asked: "{{{audienceQuestion}}}". Put their question, in your own words, to the one or two participants best placed to answer it.{{else}}Review the transcript and ask one pointed question, addressed to one or two participants by name, to keep the debate moving.{{/if}} Keep it to {{{length}}}. Write the question in {{{language}}}.
+Optionally name one participant to follow up on their answers, and decide whether the remaining participants are invited to rebut.
 Previous turns:
 {{#each transcript}}
 {{{speaker}}}: {{{text}}}
 {{/each}}`,
 });
 
+const moderatorPhasePrompt = ai.definePrompt({
+    name: 'moderatorPhasePrompt',
+    input: {
+        schema: z.object({
+            topic: z.string(),
+            phase: z.string(),
+            instruction: z.string().optional(),
+            length: z.string(),
+            language: z.string(),
+        }),
+    },
+    output: { schema: z.string() },
+    prompt: `You are the moderator of a debate on the topic: {{{topic}}}.
+The debate now moves on to the next phase: {{{phase}}}.
+{{#if instruction}}In this phase each participant will be asked to: {{{instruction}}}
+{{/if}}Announce the phase to the participants and the audience in {{{length}}}. Speak only in {{{language}}}.`,
+});
+
+const crossExaminationPrompt = ai.definePrompt({
+    name: 'crossExaminationPrompt',
+    input: {
+        schema: z.object({
+            topic: z.string(),
+            persona: PersonaSchema,
+            target: z.string(),
+            round: z.number(),
+            stance: z.string().optional(),
+            correction: z.string().optional(),
+            length: z.string(),
+            language: z.string(),
+            transcript: PromptTranscriptSchema,
+        }),
+    },
+    output: { schema: z.string() },
+    prompt: `{{{persona.systemPrompt}}}\n
+You are participating in a debate about {{{topic}}}. This is round {{{round}}}.\n
+{{#if stance}}{{{stance}}}\n{{/if}}
+It is your turn to question {{{target}}} directly. Ask one pointed question that tests a weakness, assumption or definition in their position.\n
+{{#if correction}}{{{correction}}}\n{{/if}}
+Previous turns:
+{{#each transcript}}
+{{{speaker}}}: {{{text}}}
+{{/each}}
+
+Respond only with your question, in {{{length}}}. Speak only in {{{language}}}.`,
+});
+
+const moderatorInterviewPrompt = ai.definePrompt({
+    name: 'moderatorInterviewPrompt',
+    input: {
+        schema: z.object({
+            topic: z.string(),
+            guest: z.string(),
+            round: z.number(),
+            length: z.string(),
+            language: z.string(),
+            transcript: PromptTranscriptSchema,
+        }),
+    },
+    output: { schema: z.string() },
+    prompt: `You are hosting a one-on-one interview about {{{topic}}}. This is round {{{round}}}.
+Ask {{{guest}}} one question, building on what they and the other guests have said so far. Keep it to {{{length}}}. Speak only in {{{language}}}.
+Previous turns:
+{{#each transcript}}
+{{{speaker}}}: {{{text}}}
+{{/each}}`,
+});
+
+const moderatorAudienceVotePrompt = ai.definePrompt({
+    name: 'moderatorAudienceVotePrompt',
+    input: {
+        schema: z.object({
+            topic: z.string(),
+            participants: z.array(PersonaSchema),
+            length: z.string(),
+            language: z.string(),
+            transcript: PromptTranscriptSchema,
+        }),
+    },
+    output: { schema: z.string() },
+    prompt: `You are the moderator of a debate on the topic: {{{topic}}}.
+The audience has just voted on who argued most convincingly: {{#each participants}}{{{name}}}{{#unless @last}}, {{/unless}}{{/each}}.
+Based on the strength of the arguments in the transcript, announce a plausible result of the vote in {{{length}}}. Speak only in {{{language}}}.
+Transcript:
+{{#each transcript}}
+{{{speaker}}}: {{{text}}}
+{{/each}}`,
+});
+
 const moderatorOutroPrompt = ai.definePrompt({
     name: 'moderatorOutroPrompt',
     input: {
         schema: z.object({
             topic: z.string(),
-            transcript: z.array(
-                z.object({
-                    speaker: z.string(),
-                    text: z.string(),
-                    audioFile: z.string().optional(),
-                })
-            ),
+            motion: z.string().optional(),
+            sides: SidesSchema.optional(),
+            length: z.string(),
+            language: z.string(),
+            transcript: PromptTranscriptSchema,
         }),
     },
     output: { schema: z.string() },
     prompt: `You are the moderator of a debate on the topic: {{{topic}}}.
 The debate has concluded.
-Briefly summarize the debate in 1-2 sentences and thank the participants.
+{{#if motion}}Motion: {{{motion}}}
+Sides: {{#each sides}}{{{side}}}: {{#each names}}{{{this}}}{{#unless @last}}, {{/unless}}{{/each}}{{#unless @last}}; {{/unless}}{{/each}}.
+Briefly summarize the debate in {{{length}}}, naming each side and how well it made its case, and thank the participants.{{else}}Briefly summarize the debate in {{{length}}} and thank the participants.{{/if}} Speak only in {{{language}}}.
 Transcript:
 {{#each transcript}}
 {{{speaker}}}: {{{text}}}
 {{/each}}`,
 });
+const roundSummaryPrompt = ai.definePrompt({
+    name: 'roundSummaryPrompt',
+    input: {
+        schema: z.object({
+            topic: z.string(),
+            round: z.number(),
+            language: z.string(),
+            turns: PromptTranscriptSchema,
+        }),
+    },
+    output: { schema: z.string() },
+    prompt: `You are keeping notes on a debate about {{{topic}}}.
+Summarize {{#if round}}round {{{round}}}{{else}}the introduction{{/if}} below in a few sentences. Name each speaker and keep the positions they took and any questions left open. Do not add commentary. Write the summary in {{{language}}}.
+Turns:
+{{#each turns}}
+{{{speaker}}}: {{{text}}}
+{{/each}}`,
+});
 
+// How many times a turn far outside its target length, or in the wrong
+// language, is regenerated before falling back to trimming or a warning.
+const MAX_REGENERATIONS = 1;
 
 const generateHistoricalDebateFlow = ai.defineFlow(
   {
     name: 'generateHistoricalDebateFlow',
     inputSchema: GenerateHistoricalDebateInputSchema,
     outputSchema: GenerateHistoricalDebateOutputSchema,
+    streamSchema: DebateStreamChunkSchema,
   },
-  async input => {
+  async (input, {sendChunk}) => {
     const {topic, rounds, participants, generateAudio} = input;
+    const historicalTexts = input.historicalTexts ?? [];
+    const retrievalPassages = input.retrievalPassages ?? DEFAULT_RETRIEVAL_PASSAGES;
+    const turnOrderStrategy = input.turnOrder ?? DEFAULT_TURN_ORDER;
+    const seed = input.seed ?? createSeed();
+    const moderation = input.moderation ?? 'open';
+    const formatId = input.format ?? DEFAULT_DEBATE_FORMAT;
+    const format = DEBATE_FORMATS[formatId];
+    const phases = resolveFormatPhases(formatId, { crossExamination: input.crossExamination });
+    const debateId = input.debateId ?? createDebateId();
+    const storage = getDebateStorage(debateId);
+    const createdAt = new Date().toISOString();
     const useLocalTTS = process.env.USE_LOCAL_TTS === 'true';
+    const ttsProvider: TtsProvider = useLocalTTS ? 'gemini' : 'elevenlabs';
+    const language = input.language ?? DEFAULT_DEBATE_LANGUAGE;
+    const languageName = LANGUAGE_NAMES[language];
 
-    const transcript: {speaker: string; text: string; audioFile?: string}[] = [];
+    const transcript: TranscriptItem[] = [];
+    const clipDurations = new Map<number, number>();
+    const contextBudget = resolveContextBudget(input.context);
+    const anachronismCheck = input.anachronismCheck ?? false;
+    const anachronismRetries = input.anachronismRetries ?? DEFAULT_ANACHRONISM_RETRIES;
+    const retryPolicy = resolveRetryPolicy(input.retryPolicy);
+    // A speaker's sampling settings: the debate's, with their persona's over them.
+    const generationConfigFor = (persona: { generationConfig?: z.infer<typeof GenerationConfigSchema> }) =>
+        mergeGenerationConfig(input.generationConfig, persona.generationConfig);
+    // What helper calls made for a speaker get of their settings.
+    const helperConfigFor = (persona: { generationConfig?: z.infer<typeof GenerationConfigSchema> }) =>
+        samplingSettings(generationConfigFor(persona));
+    const modelCalls = { calls: 0, retries: 0 };
+    // The round each transcript turn was spoken in, parallel to `transcript`.
+    const turnRounds: number[] = [];
+    const summaries: RoundSummary[] = [];
+    let round = 0;
+    // In interactive debates, the question the audience asked after the last
+    // round, if any. It is put to the participants in the round that follows.
+    let audienceQuestion: string | undefined;
     
     // Ensure participants is always an array
     const participantIds = Array.isArray(participants) ? participants : [];
@@ -314,129 +731,690 @@ const generateHistoricalDebateFlow = ai.defineFlow(
     if (participantIds.length < 2) {
         throw new Error('At least 2 participants are required');
     }
+    if (participantIds.length < format.minParticipants || participantIds.length > format.maxParticipants) {
+        throw new Error(`The ${format.label} format needs ${format.minParticipants}-${format.maxParticipants} participants.`);
+    }
+
+    // Prompts only read `systemPrompt` and `models`, so build the prompt from
+    // the structured fields and list the models to try once. A persona none of
+    // whose models has a configured provider fails the debate here, before any
+    // turn is generated.
+    const preparePersona = (persona: Persona) => {
+        const models = personaModels(persona);
+        if (!models.some(isProviderConfigured)) {
+            resolveModel(models[0]);
+        }
+        return {
+            ...persona,
+            systemPrompt: buildSystemPrompt(persona),
+            model: models[0],
+            models,
+        };
+    };
+    type DebatePersona = ReturnType<typeof preparePersona>;
 
     const participantPersonas = participantIds.map(id => {
         if (!(personas as any)[id]) {
             throw new Error(`Invalid participant ID: ${id}`);
         }
-        return (personas as any)[id];
+        return preparePersona((personas as any)[id]);
     });
 
-    const moderatorPersona = (personas as any)['moderator'];
-    if (!moderatorPersona) {
+    if (!(personas as any)['moderator']) {
         throw new Error('Moderator persona not found.');
     }
+    const moderatorPersona = preparePersona((personas as any)['moderator']);
+
+    // The persona a participant speaks as, including any refinements below.
+    const personaFor = (id: string) => participantPersonas[participantIds.indexOf(id)];
+
+    // Refine each participant's prompt against the supplied source texts before
+    // the debate starts. A participant whose refinement fails keeps their
+    // original prompt.
+    const promptEnhancements: PromptEnhancementRecord[] = [];
+    if (historicalTexts.length > 0) {
+        for (const [i, id] of participantIds.entries()) {
+            const persona = participantPersonas[i];
+            sendChunk({ type: 'progress', stage: 'enhance', speaker: persona.name, message: `Refining ${persona.name}'s prompt with ${historicalTexts.length} source text(s).` });
+            try {
+                const { enhancedPrompt, retries } = await enhanceHistoricalAccuracy({
+                    topic,
+                    historicalTexts,
+                    prompt: persona.systemPrompt,
+                    models: moderatorPersona.models,
+                    retryPolicy,
+                    config: helperConfigFor(moderatorPersona),
+                });
+                modelCalls.calls++;
+                modelCalls.retries += retries;
+                promptEnhancements.push({ personaId: id, name: persona.name, before: persona.systemPrompt, after: enhancedPrompt });
+                participantPersonas[i] = { ...persona, systemPrompt: enhancedPrompt };
+            } catch (error) {
+                const reason = error instanceof Error ? error.message : String(error);
+                sendChunk({ type: 'warning', message: `Could not refine ${persona.name}'s prompt, so it is used unchanged: ${reason}` });
+            }
+        }
+    }
+
+    // Models found unavailable during the debate, skipped by every speaker
+    // from then on.
+    const unavailableModels = new Set<string>();
+    // Settings Ollama models can't honour, each reported once.
+    const ollamaWarnings = new Set<'seed' | 'stop'>();
+
+    // Generates with a speaker's models under the debate's retry policy,
+    // falling back down their list when a model can't be reached, doesn't
+    // exist or keeps failing. Retries and each model found unavailable are
+    // reported. Calls get the speaker's sampling settings only, unless they
+    // generate a turn and pass the full config. Returns the model that
+    // answered along with its response, for the turn to be recorded with.
+    const generateFor = async <O extends z.ZodTypeAny>(
+        persona: { name: string; models: string[]; generationConfig?: z.infer<typeof GenerationConfigSchema> },
+        options: Omit<GenerateOptions<O>, 'model'>,
+        config = helperConfigFor(persona)
+    ) => {
+        const { response, model, skipped, retries } = await generateWithFallback(persona.models, { ...options, config }, {
+            unavailable: unavailableModels,
+            policy: retryPolicy,
+            onRetry: (model, { retry, maxRetries, delayMs, error }) => {
+                const reason = error instanceof Error ? error.message : String(error);
+                sendChunk({ type: 'warning', message: `${model} failed for ${persona.name}, retrying in ${Math.ceil(delayMs / 1000)}s (${retry} of ${maxRetries}): ${reason}` });
+            },
+        });
+        modelCalls.calls++;
+        modelCalls.retries += retries;
+        // The Ollama plugin forwards temperature, topP and maxOutputTokens,
+        // but not a seed, and only one stop sequence (see generateWithFallback).
+        if (config.seed !== undefined && model.startsWith('ollama/') && !ollamaWarnings.has('seed')) {
+            ollamaWarnings.add('seed');
+            sendChunk({ type: 'warning', message: `Ollama models ignore the generation seed, so turns by ${model} and other Ollama models are not reproducible.` });
+        }
+        if ((config.stopSequences?.length ?? 0) > 1 && model.startsWith('ollama/') && !ollamaWarnings.has('stop')) {
+            ollamaWarnings.add('stop');
+            sendChunk({ type: 'warning', message: `Ollama models take a single stop sequence, so ${persona.name}'s turns with ${model} stop only at "${config.stopSequences![0]}".` });
+        }
+        for (const { model: failed, reason } of skipped) {
+            sendChunk({ type: 'warning', message: `Model ${failed} is unavailable, so ${persona.name} falls back to ${model}: ${reason}` });
+        }
+        return { response, model };
+    };
+
+    // Sides on the motion: the user's assignments, with the moderator model
+    // filling in anyone left without one. A participant it skips is put on
+    // the smaller of the two sides.
+    const motion = input.motion?.trim() || undefined;
+    const stances: StanceAssignment[] = [];
+    if (motion) {
+        const userStances = input.stances ?? {};
+        const unassigned = participantIds.filter(id => !userStances[id]);
+        let suggestions: z.infer<typeof StanceAssignmentsSchema>['assignments'] = [];
+        if (unassigned.length > 0) {
+            sendChunk({ type: 'progress', stage: 'stances', speaker: moderatorPersona.name, message: `Moderator is assigning stances on the motion to ${unassigned.map(id => personaFor(id).name).join(', ')}.` });
+            try {
+                const { response } = await generateFor(moderatorPersona, {
+                    ...(await assignStancesPrompt.render({
+                        motion,
+                        participants: unassigned.map(personaFor),
+                        assigned: participantIds
+                            .filter(id => userStances[id])
+                            .map(id => ({ name: personaFor(id).name, stance: userStances[id] })),
+                    })),
+                    output: { schema: StanceAssignmentsSchema },
+                });
+                suggestions = (response.output as z.infer<typeof StanceAssignmentsSchema> | null)?.assignments ?? [];
+            } catch (error) {
+                const reason = error instanceof Error ? error.message : String(error);
+                sendChunk({ type: 'warning', message: `The moderator could not assign stances: ${reason}` });
+            }
+        }
+
+        for (const id of participantIds) {
+            const name = personaFor(id).name;
+            if (userStances[id]) {
+                stances.push({ participantId: id, name, stance: userStances[id], assignedBy: 'user' });
+                continue;
+            }
+            const suggestion = suggestions.find(candidate => candidate.name.trim().toLowerCase() === name.toLowerCase());
+            if (suggestion) {
+                stances.push({ participantId: id, name, stance: suggestion.stance, assignedBy: 'moderator', reason: suggestion.reason });
+                continue;
+            }
+            const count = (stance: string) => stances.filter(assignment => assignment.stance === stance).length;
+            const stance = count('pro') <= count('con') ? 'pro' : 'con';
+            stances.push({ participantId: id, name, stance, assignedBy: 'moderator' });
+            sendChunk({ type: 'warning', message: `The moderator gave ${name} no stance, so they argue ${stance === 'pro' ? 'for' : 'against'} the motion.` });
+        }
+    }
+    const stanceFor = (id: string) => {
+        const assignment = stances.find(candidate => candidate.participantId === id);
+        return assignment && motion ? describeStance(assignment.stance, motion) : undefined;
+    };
+    const sides = motion ? groupBySide(stances) : undefined;
+
+    // Passages from a participant's own corpus that bear on the current
+    // question. A persona without a corpus gets none; if retrieval fails, the
+    // debate goes on without it and the failure is reported once per persona.
+    const retrievalFailed = new Set<string>();
+    const retrieveFor = async (agentId: string, query: string): Promise<CorpusPassage[]> => {
+        if (retrievalPassages === 0 || retrievalFailed.has(agentId)) {
+            return [];
+        }
+        try {
+            return await retrievePassages(agentId, query, retrievalPassages);
+        } catch (error) {
+            retrievalFailed.add(agentId);
+            const reason = error instanceof Error ? error.message : String(error);
+            sendChunk({ type: 'warning', message: `Could not retrieve source passages for ${personaFor(agentId).name}: ${reason}` });
+            return [];
+        }
+    };
+
+    const nextSpeakingOrder = createTurnOrder(turnOrderStrategy, participantIds, seed);
+    const speakingOrders: string[][] = [];
+
+    const contextTurns = (): ContextTurn[] =>
+        transcript.map((turn, index) => ({ speaker: turn.speaker, text: turn.text, round: turnRounds[index] }));
+
+    // What prompts see of the debate so far, kept within the context budget.
+    const promptTranscript = () => buildTranscriptContext(contextTurns(), summaries, contextBudget);
+
+    // Once the transcript outgrows the budget, the moderator model summarizes
+    // each round that has fallen out of the recent turns.
+    const summarizeOldRounds = async () => {
+        for (const summaryRound of roundsToSummarize(contextTurns(), summaries, contextBudget)) {
+            sendChunk({ type: 'progress', stage: 'round', round, speaker: moderatorPersona.name, message: `Summarizing ${summaryRound === 0 ? 'the introduction' : `round ${summaryRound}`} to keep prompts short.` });
+            const { response: summary } = await generateFor(moderatorPersona, {
+                ...(await roundSummaryPrompt.render({
+                    topic,
+                    round: summaryRound,
+                    language: languageName,
+                    turns: transcript.filter((_, index) => turnRounds[index] === summaryRound),
+                })),
+                output: { format: 'text' },
+            });
+            summaries.push({ round: summaryRound, text: summary.text });
+        }
+    };
 
-    const generateTurn = async (persona: any, text: string) => {
-        const turnData: {speaker: string; text: string; audioFile?: string} = {
+    // A speaker's target length: their persona's own, else the debate's.
+    const lengthFor = (persona: DebatePersona) => resolveTurnLength(persona.turnLength ?? input.turnLength);
+
+    // Reminds a speaker that their previous attempt was in another language.
+    const languageReminder = `Your previous attempt was not in ${languageName}, so write this one in ${languageName} only`;
+
+    // Generates a speaker's next line and holds it to their target length and
+    // the debate's language. A line far outside the target or in another
+    // language is regenerated with a reminder of what was wrong; one still too
+    // long after that is trimmed at a sentence boundary. Returns the line with
+    // the model that wrote it.
+    const speak = async (persona: DebatePersona, render: (length: string) => Promise<GenerateOptions>): Promise<{ text: string; model: string }> => {
+        const range = lengthFor(persona);
+        let length = describeWordRange(range);
+        let text = '';
+        let model = '';
+        for (let attempt = 0; attempt <= MAX_REGENERATIONS; attempt++) {
+            const generated = await generateFor(persona, {
+                ...(await render(length)),
+                output: { format: 'text' },
+            }, generationConfigFor(persona));
+            text = generated.response.text;
+            model = generated.model;
+            const check = checkTurnLength(text, range);
+            const wrongLanguage = isWrongLanguage(text, language);
+            if (check === 'ok' && !wrongLanguage) {
+                return { text, model };
+            }
+            length = [
+                describeWordRange(range),
+                check !== 'ok' && `Your previous attempt had ${countWords(text)} words, which is far too ${check === 'too-long' ? 'long' : 'short'}`,
+                wrongLanguage && languageReminder,
+            ].filter(Boolean).join('. ');
+        }
+        if (isWrongLanguage(text, language)) {
+            sendChunk({ type: 'warning', message: `${persona.name} kept answering in a language other than ${languageName}.` });
+        }
+        if (checkTurnLength(text, range) === 'too-long') {
+            sendChunk({ type: 'warning', message: `${persona.name} kept running long, so their turn was trimmed to ${range.maxWords} words.` });
+            text = trimToWordLimit(text, range.maxWords);
+        }
+        return { text, model };
+    };
+
+    // Reviews a participant's line for anachronisms. Failures of the check
+    // itself are reported and otherwise ignored, so they never stop a debate.
+    const findAnachronisms = async (persona: DebatePersona, text: string): Promise<AnachronismFinding[]> => {
+        try {
+            const { findings, retries } = await checkAnachronisms({
+                topic,
+                speaker: persona.name,
+                systemPrompt: persona.systemPrompt,
+                text,
+                models: moderatorPersona.models,
+                retryPolicy,
+                config: helperConfigFor(moderatorPersona),
+            });
+            modelCalls.calls++;
+            modelCalls.retries += retries;
+            return findings;
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            sendChunk({ type: 'warning', message: `Could not check ${persona.name}'s turn for anachronisms: ${reason}` });
+            return [];
+        }
+    };
+
+    // A participant's line, held to their era. A line with anachronisms is
+    // regenerated with the findings pointed out, up to the retry limit.
+    const speakInCharacter = async (
+        persona: DebatePersona,
+        render: (length: string, correction?: string) => Promise<GenerateOptions>
+    ): Promise<{ text: string; model: string; anachronisms?: AnachronismReview }> => {
+        let { text, model } = await speak(persona, length => render(length));
+        if (!anachronismCheck) {
+            return { text, model };
+        }
+
+        let findings = await findAnachronisms(persona, text);
+        const allFindings: AnachronismFinding[] = [];
+        const record = (found: AnachronismFinding[]) => found.forEach(finding => {
+            if (!allFindings.some(known => known.concept.toLowerCase() === finding.concept.toLowerCase())) {
+                allFindings.push(finding);
+            }
+        });
+        record(findings);
+
+        let regenerations = 0;
+        while (findings.length > 0 && regenerations < anachronismRetries) {
+            regenerations++;
+            const concepts = findings.map(finding => finding.concept).join(', ');
+            sendChunk({ type: 'progress', stage: 'round', round, speaker: persona.name, message: `${persona.name} mentioned ${concepts}, which they could not have known about. Regenerating (${regenerations} of ${anachronismRetries}).` });
+            const correction = `Your previous answer mentioned ${concepts}, which you could not have known about. Answer again without referring to ${findings.length === 1 ? 'it' : 'them'}.`;
+            ({ text, model } = await speak(persona, length => render(length, correction)));
+            findings = await findAnachronisms(persona, text);
+            record(findings);
+        }
+
+        if (allFindings.length === 0) {
+            return { text, model };
+        }
+        if (findings.length > 0) {
+            sendChunk({ type: 'warning', message: `${persona.name}'s turn still mentions ${findings.map(finding => finding.concept).join(', ')} after ${regenerations} regeneration(s).` });
+        }
+        return { text, model, anachronisms: { findings: allFindings, regenerations, resolved: findings.length === 0 } };
+    };
+
+    // A speaker's TTS voice. A voice the provider can't use for the debate's
+    // language is swapped, once per speaker, for one that it can.
+    const voiceSubstitutes = new Map<string, string>();
+    const voiceFor = (persona: DebatePersona): string => {
+        if (isValidVoice(persona.voiceId, language, ttsProvider)) {
+            return persona.voiceId;
+        }
+        if (!voiceSubstitutes.has(persona.name)) {
+            const candidates = voicesFor(language, ttsProvider);
+            const substitute = candidates.length > 0 ? candidates[voiceSubstitutes.size % candidates.length].id : persona.voiceId;
+            voiceSubstitutes.set(persona.name, substitute);
+            sendChunk({
+                type: 'warning',
+                message: candidates.length > 0
+                    ? `${persona.name}'s voice ${persona.voiceId} can't speak ${languageName} with ${TTS_PROVIDER_LABELS[ttsProvider]} TTS, so ${substitute} is used instead.`
+                    : `No ${TTS_PROVIDER_LABELS[ttsProvider]} voice speaks ${languageName}, so ${persona.name}'s audio may fail.`,
+            });
+        }
+        return voiceSubstitutes.get(persona.name)!;
+    };
+
+    const generateTurn = async (
+        persona: DebatePersona | { name: string },
+        text: string,
+        details: TurnDetails = {},
+        withAudio = generateAudio
+    ) => {
+        const index = transcript.length;
+        const turnData: TranscriptItem = {
+            id: `turn-${index}`,
             speaker: persona.name,
             text: text,
+            ...details,
         };
+        transcript.push(turnData);
+        turnRounds.push(round);
+        sendChunk({ type: 'turn', index, turn: { id: turnData.id, speaker: turnData.speaker, text: turnData.text, ...details } });
 
-        if (generateAudio) {
+        // The audience has no voice, so its questions are never synthesized.
+        if (withAudio && 'voiceId' in persona) {
+            sendChunk({ type: 'progress', stage: 'tts', speaker: persona.name, message: `Synthesizing audio for ${persona.name}.` });
             let audioBase64: string | undefined;
             try {
                 if (useLocalTTS) {
                      audioBase64 = await synthesizeSpeechLocal({
                         text: text,
-                        voiceId: persona.voiceId,
+                        voiceId: voiceFor(persona),
                      });
                 } else {
                      audioBase64 = await synthesizeSpeechElevenLabs({
                         text: text,
-                        voiceId: persona.voiceId,
+                        voiceId: voiceFor(persona),
+                        language,
                     });
                 }
                 
                 if (audioBase64) {
-                    const audioFile = `clip_${transcript.length}.wav`;
-                    const audioFilePath = path.join(process.cwd(), 'public', audioFile);
+                    const clipName = `clip_${index}.wav`;
+                    const audioFile = storage.publicPath(clipName);
                     const buffer = Buffer.from(audioBase64, 'base64');
-                    await fs.writeFile(audioFilePath, buffer);
+                    await fs.mkdir(storage.dir, { recursive: true });
+                    await fs.writeFile(storage.filePath(clipName), buffer);
+                    // A clip that can't be measured still plays; it just has no offsets.
+                    try {
+                        clipDurations.set(index, getWavDuration(buffer));
+                    } catch (error) {
+                        const reason = error instanceof Error ? error.message : String(error);
+                        sendChunk({ type: 'warning', message: `Could not measure the audio for ${persona.name}, so its podcast offsets are unknown: ${reason}` });
+                    }
                     turnData.audioFile = audioFile;
+                    sendChunk({ type: 'audio', index, audioFile });
                 } else {
                      console.error(`Skipping audio for ${persona.name} because audio data is empty.`);
+                     sendChunk({ type: 'clipFailed', index, message: `Skipping audio for ${persona.name} because audio data is empty.` });
                 }
 
             } catch (error) {
                 console.error(`Skipping audio for ${persona.name} due to TTS error:`, error);
+                const reason = error instanceof Error ? error.message : String(error);
+                sendChunk({ type: 'clipFailed', index, message: `Skipping audio for ${persona.name} due to TTS error: ${reason}` });
             }
         }
-        transcript.push(turnData);
+        return turnData.id;
     };
 
     // Moderator Intro
-    const introText = await ai.generate({
-        model: ollama(moderatorPersona.ollamaModel),
-        prompt: await moderatorIntroPrompt.render({ topic, participants: participantPersonas }),
-        output: { format: 'text' },
-    });
-    await generateTurn(moderatorPersona, introText.text);
-
+    sendChunk({ type: 'progress', stage: 'intro', speaker: moderatorPersona.name, message: 'Moderator is introducing the debate.' });
+    const intro = await speak(moderatorPersona, length =>
+        moderatorIntroPrompt.render({ topic, participants: participantPersonas, format, motion, sides, length, language: languageName })
+    );
+    await generateTurn(moderatorPersona, intro.text, { model: intro.model });
 
-    for (let round = 1; round <= rounds; round++) {
-      // Moderator Transition
-      const transitionText = await ai.generate({
-        model: ollama(moderatorPersona.ollamaModel),
-        prompt: await moderatorTransitionPrompt.render({ topic, round, transcript }),
-        output: { format: 'text' },
-      });
-      await generateTurn(moderatorPersona, transitionText.text);
 
-      const shuffledParticipants = [...participants].sort(() => Math.random() - 0.5);
-
-      for (const agentId of shuffledParticipants) {
-        const persona = (personas as any)[agentId];
-        const promptInput = {
+    const participantTurn = async (
+        agentId: string,
+        round: number,
+        cue?: string,
+        links?: Pick<TranscriptItem, 'questionTo' | 'answerTo'>
+    ) => {
+        const persona = personaFor(agentId);
+        sendChunk({ type: 'progress', stage: 'round', round, speaker: persona.name, message: `Round ${round}: ${persona.name} is responding.` });
+        speakingOrders[round - 1].push(agentId);
+        const passages = await retrieveFor(agentId, [topic, cue, transcript.at(-1)?.text].filter(Boolean).join('\n'));
+        const response = await speakInCharacter(persona, (length, correction) => debatePrompt.render({
           topic: topic,
           persona: persona,
           round: round,
-          transcript: transcript,
-        };
+          stance: stanceFor(agentId),
+          cue: [
+            cue,
+            audienceQuestion && `A member of the audience asked: "${audienceQuestion}" Address their question in your answer.`,
+            correction,
+          ].filter(Boolean).join('\n') || undefined,
+          passages: passages.map(({ title, text }, i) => ({ number: i + 1, title, text })),
+          length: length,
+          language: languageName,
+          transcript: promptTranscript(),
+        }));
+        const { text, citations } = extractCitations(response.text, passages);
 
-        const response = await ai.generate({
-          model: ollama(persona.ollamaModel),
-          prompt: await debatePrompt.render(promptInput),
-          output: {
-            format: 'text'
-          }
+        await generateTurn(persona, text, {
+          ...links,
+          anachronisms: response.anachronisms,
+          model: response.model,
+          citations: citations.length > 0 ? citations : undefined,
         });
+    };
+
+    // Maps a name the moderator used back to a participant ID.
+    const findParticipant = (name: string | undefined) => {
+        const needle = name?.trim().toLowerCase();
+        if (!needle) return undefined;
+        return participantIds.find((id, i) =>
+            id.toLowerCase() === needle || participantPersonas[i].name.toLowerCase() === needle
+        );
+    };
+
+    const moderatedRound = async (round: number, speakingOrder: string[]) => {
+      // Moderator Transition
+      sendChunk({ type: 'progress', stage: 'round', round, speaker: moderatorPersona.name, message: `Round ${round}: moderator is asking the next question.` });
+
+      if (moderation === 'directed') {
+        let direction: z.infer<typeof ModeratorDirectionSchema> | null = null;
+        let directionModel: string | undefined;
+        let length = describeWordRange(lengthFor(moderatorPersona));
+        // A reply that doesn't fit the schema is no direction at all; the
+        // round then runs as an open one below.
+        try {
+          for (let attempt = 0; attempt <= MAX_REGENERATIONS; attempt++) {
+            const { response, model } = await generateFor(moderatorPersona, {
+              ...(await moderatorDirectedTransitionPrompt.render({
+                topic,
+                round,
+                participants: participantPersonas,
+                audienceQuestion,
+                length,
+                language: languageName,
+                transcript: promptTranscript(),
+              })),
+              output: { schema: ModeratorDirectionSchema },
+            });
+            direction = response.output as z.infer<typeof ModeratorDirectionSchema> | null;
+            directionModel = model;
+            if (!direction || !isWrongLanguage(direction.question, language)) {
+              break;
+            }
+            length = `${describeWordRange(lengthFor(moderatorPersona))}. ${languageReminder}`;
+          }
+        } catch (error) {
+          direction = null;
+          const reason = error instanceof Error ? error.message : String(error);
+          sendChunk({ type: 'warning', message: `Round ${round}: the moderator's direction could not be read: ${reason}` });
+        }
+
+        if (direction) {
+          // Structured output can't be regenerated for length alone, so only trim it.
+          const range = lengthFor(moderatorPersona);
+          const question = checkTurnLength(direction.question, range) === 'too-long'
+            ? trimToWordLimit(direction.question, range.maxWords)
+            : direction.question;
+          await generateTurn(moderatorPersona, question, { model: directionModel });
+
+          // Fall back to the first speaker in turn order if the moderator named nobody we know.
+          const addressed = [...new Set(direction.addressedTo.map(findParticipant).filter((id): id is string => !!id))];
+          if (addressed.length === 0) {
+              addressed.push(speakingOrder[0]);
+          }
+          for (const agentId of addressed) {
+              await participantTurn(agentId, round, 'The moderator addressed this question to you directly.');
+          }
 
-        await generateTurn(persona, response.text);
+          const followUp = findParticipant(direction.followUpTarget);
+          if (followUp) {
+              await participantTurn(followUp, round, 'The moderator invited you to follow up on the answers so far.');
+          }
+
+          if (direction.inviteRebuttals) {
+              for (const agentId of speakingOrder.filter(id => !addressed.includes(id) && id !== followUp)) {
+                  await participantTurn(agentId, round, 'The moderator invited you to rebut what was just said.');
+              }
+          }
+          return;
+        }
+
+        sendChunk({ type: 'warning', message: `Round ${round}: the moderator gave no structured direction, so every participant will answer.` });
+      }
+
+      const transition = await speak(moderatorPersona, length =>
+        moderatorTransitionPrompt.render({ topic, round, audienceQuestion, length, language: languageName, transcript: promptTranscript() })
+      );
+      await generateTurn(moderatorPersona, transition.text, { model: transition.model });
+
+      for (const agentId of speakingOrder) {
+        await participantTurn(agentId, round);
+      }
+    };
+
+    const announcePhase = async (round: number, phase: DebatePhase) => {
+      sendChunk({ type: 'progress', stage: 'round', round, speaker: moderatorPersona.name, message: `Round ${round}: moderator is opening the ${phase.title} phase.` });
+      const announcement = await speak(moderatorPersona, length =>
+        moderatorPhasePrompt.render({ topic, phase: phase.title, instruction: phase.instruction, length, language: languageName })
+      );
+      await generateTurn(moderatorPersona, announcement.text, { model: announcement.model });
+    };
+
+    // Opening, rebuttal and closing phases: everyone speaks once, in turn order.
+    const statementsPhase = async (round: number, phase: DebatePhase, speakingOrder: string[]) => {
+      await announcePhase(round, phase);
+      for (const agentId of speakingOrder) {
+        await participantTurn(agentId, round, phase.instruction);
+      }
+    };
+
+    const crossExamination = async (round: number, phase: DebatePhase, speakingOrder: string[]) => {
+      await announcePhase(round, phase);
+
+      const lead = participantIds[0];
+      const pairs = phase.questioner === 'first'
+        ? speakingOrder.filter(id => id !== lead).map(target => [lead, target])
+        : speakingOrder.map((id, i) => [id, speakingOrder[(i + 1) % speakingOrder.length]]);
+
+      for (const [questionerId, targetId] of pairs) {
+        const questioner = personaFor(questionerId);
+        const target = personaFor(targetId);
+        sendChunk({ type: 'progress', stage: 'round', round, speaker: questioner.name, message: `Round ${round}: ${questioner.name} is questioning ${target.name}.` });
+        speakingOrders[round - 1].push(questionerId);
+        const { text: question, model, anachronisms } = await speakInCharacter(questioner, (length, correction) =>
+          crossExaminationPrompt.render({ topic, persona: questioner, target: target.name, round, stance: stanceFor(questionerId), correction, length, language: languageName, transcript: promptTranscript() })
+        );
+        const questionId = await generateTurn(questioner, question, { questionTo: targetId, anachronisms, model });
+        await participantTurn(
+          targetId,
+          round,
+          `${questioner.name} has just asked you: "${question}" Answer that question directly before making any other point.`,
+          { answerTo: questionId }
+        );
+      }
+    };
+
+    const interview = async (round: number, speakingOrder: string[]) => {
+      for (const agentId of speakingOrder) {
+        const guest = personaFor(agentId);
+        sendChunk({ type: 'progress', stage: 'round', round, speaker: moderatorPersona.name, message: `Round ${round}: moderator is interviewing ${guest.name}.` });
+        const question = await speak(moderatorPersona, length =>
+          moderatorInterviewPrompt.render({ topic, guest: guest.name, round, length, language: languageName, transcript: promptTranscript() })
+        );
+        await generateTurn(moderatorPersona, question.text, { model: question.model });
+        await participantTurn(agentId, round, 'The interviewer has just asked you a question. Answer it in your own voice.');
+      }
+    };
+
+    const audienceVote = async (round: number) => {
+      sendChunk({ type: 'progress', stage: 'round', round, speaker: moderatorPersona.name, message: `Round ${round}: moderator is announcing the audience vote.` });
+      const result = await speak(moderatorPersona, length =>
+        moderatorAudienceVotePrompt.render({ topic, participants: participantPersonas, length, language: languageName, transcript: promptTranscript() })
+      );
+      await generateTurn(moderatorPersona, result.text, { model: result.model });
+    };
+
+    // Every run of a phase counts as one round.
+    const totalRounds = countFormatRounds(formatId, rounds, { crossExamination: input.crossExamination });
+    for (const phase of phases) {
+      const runs = phase.perRound ? rounds : 1;
+      for (let run = 0; run < runs; run++) {
+        round++;
+        const speakingOrder = nextSpeakingOrder();
+        speakingOrders.push([]);
+
+        switch (phase.kind) {
+          case 'moderated-round':
+            await moderatedRound(round, speakingOrder);
+            break;
+          case 'opening':
+          case 'rebuttal':
+          case 'closing':
+            await statementsPhase(round, phase, speakingOrder);
+            break;
+          case 'cross-examination':
+            await crossExamination(round, phase, speakingOrder);
+            break;
+          case 'interview':
+            await interview(round, speakingOrder);
+            break;
+          case 'audience-vote':
+            await audienceVote(round);
+            break;
+        }
+        await summarizeOldRounds();
+        audienceQuestion = undefined;
+
+        // Interactive debates wait for the audience between rounds. Their
+        // question goes into the transcript unvoiced; the next round puts it
+        // to the participants.
+        if (input.interactive && round < totalRounds) {
+          sendChunk({ type: 'paused', round, message: `Paused after round ${round}. Waiting for an audience question or for the debate to continue.` });
+          const { question, timedOut } = await waitForAudience(debateId);
+          if (timedOut) {
+            sendChunk({ type: 'warning', message: `Nobody resumed the debate after round ${round}, so it continues without an audience question.` });
+          }
+          if (question) {
+            await generateTurn({ name: AUDIENCE_SPEAKER }, question, {}, false);
+            audienceQuestion = question;
+          }
+          sendChunk({ type: 'progress', stage: 'round', round, message: question ? 'Resuming with an audience question.' : 'Resuming the debate.' });
+        }
       }
     }
     
     // Moderator Outro
-    const outroText = await ai.generate({
-        model: ollama(moderatorPersona.ollamaModel),
-        prompt: await moderatorOutroPrompt.render({ topic, transcript }),
-        output: { format: 'text' },
-    });
-    await generateTurn(moderatorPersona, outroText.text);
+    sendChunk({ type: 'progress', stage: 'outro', speaker: moderatorPersona.name, message: 'Moderator is wrapping up the debate.' });
+    const outro = await speak(moderatorPersona, length =>
+        moderatorOutroPrompt.render({ topic, motion, sides, length, language: languageName, transcript: promptTranscript() })
+    );
+    await generateTurn(moderatorPersona, outro.text, { model: outro.model });
 
 
     let podcastFile = '';
-    let duration = '0:00';
+    let durationSeconds = 0;
 
     if (generateAudio) {
         const audioFilesToConcat = transcript.filter(t => t.audioFile);
         if (audioFilesToConcat.length > 0) {
-            podcastFile = 'final_debate.mp3';
-            const concatListPath = path.join(process.cwd(), 'public', 'concat_list.txt');
-            const podcastFilePath = path.join(process.cwd(), 'public', podcastFile);
+            podcastFile = storage.publicPath('podcast.mp3');
+            const concatListPath = storage.filePath('concat_list.txt');
+            const podcastFilePath = storage.filePath('podcast.mp3');
 
             const concatListContent = audioFilesToConcat
               .map(turn => `file '${path.join(process.cwd(), 'public', turn.audioFile!)}'`)
               .join('\n');
             
             try {
+              sendChunk({ type: 'progress', stage: 'ffmpeg', message: `Assembling ${audioFilesToConcat.length} clips into the podcast.` });
               await fs.writeFile(concatListPath, concatListContent);
               await fs.unlink(podcastFilePath).catch(() => {}); // Delete old file if exists
               const command = `ffmpeg -f concat -safe 0 -i ${concatListPath} -c:a libmp3lame -q:a 2 ${podcastFilePath}`;
               await execAsync(command);
-              duration = '12:45'; // Dummy duration for now
+
+              // The podcast is the clips back to back, so each turn's offsets
+              // follow from the clip lengths, up to the first clip of unknown length.
+              let offsetsKnown = true;
+              for (const turn of audioFilesToConcat) {
+                  const clipDuration = clipDurations.get(transcript.indexOf(turn));
+                  offsetsKnown &&= clipDuration !== undefined;
+                  if (offsetsKnown) {
+                      turn.startTime = durationSeconds;
+                      turn.endTime = durationSeconds + clipDuration!;
+                  }
+                  durationSeconds += clipDuration ?? 0;
+              }
             } catch (e) {
               console.error('Error running ffmpeg', e);
+              sendChunk({ type: 'warning', message: `Podcast assembly failed: ${e instanceof Error ? e.message : String(e)}` });
               podcastFile = ''; // Reset if ffmpeg fails
             } finally {
               await fs.unlink(concatListPath).catch(console.error);
@@ -444,18 +1422,66 @@ const generateHistoricalDebateFlow = ai.defineFlow(
         }
     }
     
+    const data = {
+      id: debateId,
+      transcript: transcript,
+      summaries,
+      motion,
+      stances: motion ? stances : undefined,
+      podcast: podcastFile,
+      duration: formatTimestamp(durationSeconds),
+      durationSeconds,
+      audioGenerated: generateAudio,
+      format: formatId,
+      turnOrder: { strategy: turnOrderStrategy, seed, rounds: speakingOrders },
+      modelCalls,
+    };
+
+    const speakerRecord = (id: string, persona: DebatePersona) => ({
+      id,
+      name: persona.name,
+      voiceId: generateAudio ? voiceFor(persona) : persona.voiceId,
+      model: persona.model,
+      fallbackModels: persona.models.slice(1),
+      generationConfig: generationConfigFor(persona),
+    });
+    // The debate is finished either way; a record that can't be written only
+    // keeps it out of the library.
+    try {
+      await saveDebateRecord({
+        id: debateId,
+        createdAt,
+        completedAt: new Date().toISOString(),
+        input: { ...input, debateId, format: formatId, turnOrder: turnOrderStrategy, seed },
+        moderator: speakerRecord('moderator', moderatorPersona),
+        participants: participantIds.map((id, i) => speakerRecord(id, participantPersonas[i])),
+        promptEnhancements,
+        ttsProvider: generateAudio ? ttsProvider : null,
+        data,
+      });
+    } catch (error) {
+      console.error('Error saving debate record', error);
+      const reason = error instanceof Error ? error.message : String(error);
+      sendChunk({ type: 'warning', message: `The debate could not be saved to the library: ${reason}` });
+    }
+
     return {
       status: 'success',
-      data: {
-        transcript: transcript,
-        podcast: podcastFile,
-        duration: duration,
-        audioGenerated: generateAudio,
-      },
+      data,
     };
   }
 );
 
-export async function generateHistoricalDebate(input: GenerateHistoricalDebateInput): Promise<GenerateHistoricalDebateOutput> {
-  return generateHistoricalDebateFlow(input);
+export async function generateHistoricalDebate(
+  input: GenerateHistoricalDebateInput,
+  options?: { onChunk?: (chunk: DebateStreamChunk) => void }
+): Promise<GenerateHistoricalDebateOutput> {
+  if (!options?.onChunk) {
+    return generateHistoricalDebateFlow(input);
+  }
+  const {stream, output} = generateHistoricalDebateFlow.stream(input);
+  for await (const chunk of stream) {
+    options.onChunk(chunk);
+  }
+  return output;
 }
@@ -0,0 +1,162 @@
+/**
+ * Debate formats. A format is an ordered list of phases that runs between the
+ * moderator's introduction and closing remarks. Each phase kind is driven by
+ * its own prompt in the debate flow:
+ *
+ * - moderated-round: `moderatorTransitionPrompt` (or the directed variant),
+ *   then every participant answers through `debatePrompt`.
+ * - opening, rebuttal, closing: `moderatorPhasePrompt` announces the phase,
+ *   then every participant speaks through `debatePrompt` with the phase's
+ *   instruction.
+ * - cross-examination: `crossExaminationPrompt` lets one participant question
+ *   another, who answers through `debatePrompt`.
+ * - interview: `moderatorInterviewPrompt` puts a question to one participant
+ *   at a time, who answers through `debatePrompt`.
+ * - audience-vote: `moderatorAudienceVotePrompt` announces how a simulated
+ *   audience voted.
+ */
+
+export type DebatePhaseKind =
+  | 'moderated-round'
+  | 'opening'
+  | 'rebuttal'
+  | 'cross-examination'
+  | 'interview'
+  | 'closing'
+  | 'audience-vote';
+
+export type DebatePhase = {
+  kind: DebatePhaseKind;
+  title: string;
+  /** Told to each participant when they speak in this phase. */
+  instruction?: string;
+  /** Run the phase once per requested round instead of once. */
+  perRound?: boolean;
+  /**
+   * Who asks in a cross-examination: every participant questions the next one
+   * in turn order (`rotate`), or the first participant questions all others
+   * (`first`).
+   */
+  questioner?: 'rotate' | 'first';
+};
+
+export type DebateFormat = {
+  label: string;
+  description: string;
+  minParticipants: number;
+  maxParticipants: number;
+  phases: DebatePhase[];
+};
+
+export const DEBATE_FORMAT_IDS = [
+  'classic',
+  'oxford',
+  'lincoln-douglas',
+  'panel',
+  'interview',
+  'socratic',
+] as const;
+
+export type DebateFormatId = (typeof DEBATE_FORMAT_IDS)[number];
+
+export const DEFAULT_DEBATE_FORMAT: DebateFormatId = 'classic';
+
+export const DEBATE_FORMATS: Record<DebateFormatId, DebateFormat> = {
+  'classic': {
+    label: 'Classic',
+    description: 'The moderator asks a question each round and every participant answers.',
+    minParticipants: 2,
+    maxParticipants: 5,
+    phases: [
+      { kind: 'moderated-round', title: 'Round', perRound: true },
+    ],
+  },
+  'oxford': {
+    label: 'Oxford-style',
+    description: 'Opening statements, moderated rounds, rebuttals and closing statements, decided by an audience vote.',
+    minParticipants: 2,
+    maxParticipants: 5,
+    phases: [
+      { kind: 'opening', title: 'Opening Statements', instruction: 'Give your opening statement: state your position on the motion and your strongest argument.' },
+      { kind: 'moderated-round', title: 'Moderated Round', perRound: true },
+      { kind: 'rebuttal', title: 'Rebuttals', instruction: 'Rebut the strongest argument made against your position so far.' },
+      { kind: 'closing', title: 'Closing Statements', instruction: 'Give your closing statement: summarize why the audience should side with you.' },
+      { kind: 'audience-vote', title: 'Audience Vote' },
+    ],
+  },
+  'lincoln-douglas': {
+    label: 'Lincoln-Douglas',
+    description: 'A one-on-one values debate: constructive cases, cross-examination, rebuttals and closing statements.',
+    minParticipants: 2,
+    maxParticipants: 2,
+    phases: [
+      { kind: 'opening', title: 'Constructive Cases', instruction: 'Present your constructive case: the value you defend and the criterion by which it should be judged.' },
+      { kind: 'cross-examination', title: 'Cross-Examination', questioner: 'rotate', perRound: true },
+      { kind: 'rebuttal', title: 'Rebuttals', instruction: 'Rebut your opponent\'s case and defend your own against their cross-examination.' },
+      { kind: 'closing', title: 'Closing Statements', instruction: 'Give your closing statement: explain why your value should prevail.' },
+    ],
+  },
+  'panel': {
+    label: 'Panel Discussion',
+    description: 'Panelists introduce their views, discuss the moderator\'s questions, then share final thoughts.',
+    minParticipants: 2,
+    maxParticipants: 5,
+    phases: [
+      { kind: 'opening', title: 'Introductions', instruction: 'Briefly introduce your perspective on the topic.' },
+      { kind: 'moderated-round', title: 'Discussion', perRound: true },
+      { kind: 'closing', title: 'Final Thoughts', instruction: 'Share your final thoughts on the discussion.' },
+    ],
+  },
+  'interview': {
+    label: 'One-on-One Interview',
+    description: 'The moderator interviews each guest in turn, one question at a time.',
+    minParticipants: 2,
+    maxParticipants: 5,
+    phases: [
+      { kind: 'interview', title: 'Interview', perRound: true },
+    ],
+  },
+  'socratic': {
+    label: 'Socratic Dialogue',
+    description: 'The first participant leads, questioning the others to test their definitions and assumptions.',
+    minParticipants: 2,
+    maxParticipants: 5,
+    phases: [
+      { kind: 'cross-examination', title: 'Dialogue', questioner: 'first', perRound: true },
+      { kind: 'closing', title: 'Reflections', instruction: 'Reflect on what the questioning revealed about your position.' },
+    ],
+  },
+};
+
+export type FormatOptions = {
+  /** Add a cross-examination phase if the format has none. */
+  crossExamination?: boolean;
+};
+
+const CROSS_EXAMINATION_PHASE: DebatePhase = {
+  kind: 'cross-examination',
+  title: 'Cross-Examination',
+  questioner: 'rotate',
+};
+
+/**
+ * The phases a debate in this format runs through. An added cross-examination
+ * goes right before the closing statements and audience vote, or last.
+ */
+export function resolveFormatPhases(formatId: DebateFormatId, options: FormatOptions = {}): DebatePhase[] {
+  const phases = DEBATE_FORMATS[formatId].phases;
+  if (!options.crossExamination || phases.some((phase) => phase.kind === 'cross-examination')) {
+    return phases;
+  }
+  const closingIndex = phases.findIndex((phase) => phase.kind === 'closing' || phase.kind === 'audience-vote');
+  const insertAt = closingIndex === -1 ? phases.length : closingIndex;
+  return [...phases.slice(0, insertAt), CROSS_EXAMINATION_PHASE, ...phases.slice(insertAt)];
+}
+
+/** The number of rounds a debate runs, counting each run of a phase. */
+export function countFormatRounds(formatId: DebateFormatId, rounds: number, options: FormatOptions = {}): number {
+  return resolveFormatPhases(formatId, options).reduce(
+    (total, phase) => total + (phase.perRound ? rounds : 1),
+    0
+  );
+}
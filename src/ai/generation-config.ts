@@ -0,0 +1,41 @@
+/**
+ * Sampling settings for a speaker's model calls. A debate may set them for
+ * everyone, and a persona may override any of them for itself, so one
+ * figure can run hotter than another while the debate fixes a seed for all.
+ * Unset values are left to the provider's defaults.
+ */
+
+export type GenerationConfig = {
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  seed?: number;
+  stopSequences?: string[];
+};
+
+export const MAX_TEMPERATURE = 2;
+export const MAX_OUTPUT_TOKENS = 32_768;
+export const MAX_STOP_SEQUENCES = 4;
+
+/** The configs merged in order, later values overriding earlier ones. */
+export function mergeGenerationConfig(...configs: (GenerationConfig | undefined)[]): GenerationConfig {
+  const merged: GenerationConfig = {};
+  for (const config of configs) {
+    for (const [key, value] of Object.entries(config ?? {})) {
+      if (value !== undefined) {
+        (merged as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+  return merged;
+}
+
+/**
+ * Only the settings that change how a model samples, not how much it writes
+ * or where it stops. Helper calls such as summaries and structured replies
+ * get these alone, so a token cap or stop sequence meant for turns can't cut
+ * their output short.
+ */
+export function samplingSettings({ temperature, topP, seed }: GenerationConfig): GenerationConfig {
+  return mergeGenerationConfig({ temperature, topP, seed });
+}
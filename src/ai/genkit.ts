@@ -2,25 +2,31 @@ import {genkit, GenkitPlugin} from 'genkit';
 import {googleAI} from '@genkit-ai/googleai';
 import {ollama} from 'genkitx-ollama';
 import * as dotenv from 'dotenv';
+import type {ModelProvider} from '@/ai/models';
 
 dotenv.config();
 
 const plugins: GenkitPlugin[] = [];
 let googleConfigured = false;
 
+/** Providers whose models can be used, for resolving model references. */
+export const configuredProviders: ModelProvider[] = [];
+
 // Use Google AI if an API key is available
 if (process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY) {
   plugins.push(googleAI());
   googleConfigured = true;
+  configuredProviders.push('googleai');
   console.log('Using Google AI Gemini model.');
 }
 
-// In a local development environment, add Ollama.
-// It can be used alongside Google AI or as a fallback.
-if (process.env.NODE_ENV === 'development') {
-  console.log('Development environment detected. Configuring Ollama.');
+// In a local development environment, or wherever an Ollama server is
+// configured, add Ollama. It can be used alongside Google AI or as a fallback.
+if (process.env.NODE_ENV === 'development' || process.env.OLLAMA_HOST) {
+  console.log('Configuring Ollama.');
   // In genkitx-ollama@0.5.2, `ollama` is the plugin object itself, not a function.
   plugins.unshift(ollama);
+  configuredProviders.push('ollama');
   
   if (!googleConfigured) {
     console.log('Defaulting to Ollama for AI generation.');
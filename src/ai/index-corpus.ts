@@ -0,0 +1,29 @@
+import { config } from 'dotenv';
+config();
+
+import { getCorpusIndex, getEmbedModel, listCorpusPersonas } from '@/ai/corpus';
+
+// Rebuilds the retrieval index of every persona corpus, or of the persona IDs
+// given as arguments. Debates build missing or stale indexes on their own;
+// this just moves the wait out of the first debate.
+async function main() {
+  const requested = process.argv.slice(2);
+  const personaIds = requested.length > 0 ? requested : await listCorpusPersonas();
+  if (personaIds.length === 0) {
+    console.log('No persona corpora found.');
+    return;
+  }
+
+  console.log(`Indexing with ${getEmbedModel()}.`);
+  for (const personaId of personaIds) {
+    const index = await getCorpusIndex(personaId, { rebuild: true });
+    console.log(index
+      ? `${personaId}: ${index.chunks.length} passages from ${Object.keys(index.sources).length} file(s)`
+      : `${personaId}: no .txt or .md files found`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
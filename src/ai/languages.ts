@@ -0,0 +1,88 @@
+/**
+ * The languages a debate can be held in. Every prompt names the debate's
+ * language, and `detectLanguage` catches turns where a model drifted into
+ * another one anyway, so they can be regenerated.
+ */
+
+export const DEBATE_LANGUAGES = ['en', 'ru', 'de', 'fr', 'es', 'it', 'pl'] as const;
+
+export type DebateLanguage = (typeof DEBATE_LANGUAGES)[number];
+
+export const DEFAULT_DEBATE_LANGUAGE: DebateLanguage = 'en';
+
+/** English names, which is how prompts refer to the language. */
+export const LANGUAGE_NAMES: Record<DebateLanguage, string> = {
+  en: 'English',
+  ru: 'Russian',
+  de: 'German',
+  fr: 'French',
+  es: 'Spanish',
+  it: 'Italian',
+  pl: 'Polish',
+};
+
+// Frequent short words that tell Latin-script languages apart.
+const STOPWORDS: Record<Exclude<DebateLanguage, 'ru'>, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'is', 'that', 'it', 'not', 'with', 'but', 'we', 'are', 'this', 'what', 'be', 'have'],
+  de: ['und', 'der', 'die', 'das', 'ist', 'nicht', 'ich', 'zu', 'mit', 'es', 'ein', 'eine', 'aber', 'wir', 'sie', 'auch'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'que', 'pas', 'je', 'nous', 'une', 'des', 'du', 'dans', 'mais', 'pour', 'ce'],
+  es: ['el', 'los', 'las', 'y', 'es', 'que', 'no', 'yo', 'una', 'del', 'en', 'pero', 'por', 'con', 'para', 'lo'],
+  it: ['il', 'di', 'che', 'è', 'non', 'una', 'per', 'gli', 'della', 'sono', 'ma', 'con', 'io', 'noi', 'anche', 'questo'],
+  pl: ['i', 'w', 'nie', 'jest', 'że', 'się', 'na', 'to', 'jak', 'ale', 'co', 'czy', 'tak', 'jestem', 'być', 'ja'],
+};
+
+// Turns shorter than this are too short to judge reliably.
+const MIN_WORDS_TO_DETECT = 8;
+// The best guess must beat the runner-up by this factor to count.
+const DETECTION_MARGIN = 2;
+
+/** The share of a text's letters that are Cyrillic, from 0 to 1. */
+export function cyrillicShare(text: string): number {
+  const letters = text.match(/\p{L}/gu) ?? [];
+  if (letters.length === 0) {
+    return 0;
+  }
+  return letters.filter((letter) => /\p{Script=Cyrillic}/u.test(letter)).length / letters.length;
+}
+
+/**
+ * Guesses the language of a text, or returns undefined when the text is too
+ * short or too mixed to tell. Cyrillic script is taken to be Russian; other
+ * texts are scored by how many of their words are common words of each
+ * language.
+ */
+export function detectLanguage(text: string): DebateLanguage | undefined {
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  if (words.length < MIN_WORDS_TO_DETECT) {
+    return undefined;
+  }
+
+  const cyrillic = cyrillicShare(text);
+  if (cyrillic > 1 / 2) {
+    return 'ru';
+  }
+  if (cyrillic > 1 / 5) {
+    return undefined;
+  }
+
+  const scores = (Object.keys(STOPWORDS) as (keyof typeof STOPWORDS)[])
+    .map((language) => {
+      const stopwords = new Set(STOPWORDS[language]);
+      return { language, score: words.filter((word) => stopwords.has(word)).length };
+    })
+    .sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = scores;
+  if (best.score < 2 || best.score < runnerUp.score * DETECTION_MARGIN) {
+    return undefined;
+  }
+  return best.language;
+}
+
+/**
+ * Whether a turn is clearly in a language other than the expected one.
+ * Texts whose language can't be told are given the benefit of the doubt.
+ */
+export function isWrongLanguage(text: string, expected: DebateLanguage): boolean {
+  const detected = detectLanguage(text);
+  return detected !== undefined && detected !== expected;
+}
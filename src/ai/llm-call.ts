@@ -0,0 +1,120 @@
+/**
+ * The policy every model call runs under: a time limit per attempt, and a
+ * bounded number of retries with exponential backoff for failures that may
+ * pass, such as rate limits, overloaded servers and dropped connections.
+ * Other failures are fatal and thrown at once, since repeating the same
+ * request won't change the answer.
+ */
+
+export type RetryPolicy = {
+  /** How long one attempt may take before it counts as failed. */
+  timeoutMs: number;
+  /** Attempts after the first. */
+  maxRetries: number;
+  /** The wait before the first retry, doubled for each one after. */
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+};
+
+export const MAX_RETRIES = 5;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  // Local models on a CPU can take minutes for a long turn.
+  timeoutMs: 180_000,
+  maxRetries: 2,
+  initialBackoffMs: 1000,
+  maxBackoffMs: 30_000,
+};
+
+/** The default policy with the given values in place of its own. Unset values keep the default. */
+export function resolveRetryPolicy(overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+  const defined = Object.entries(overrides).filter(([, value]) => value !== undefined);
+  return { ...DEFAULT_RETRY_POLICY, ...Object.fromEntries(defined) };
+}
+
+export class CallTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`The model did not answer within ${Math.round(timeoutMs / 1000)} seconds.`);
+    this.name = 'CallTimeoutError';
+  }
+}
+
+// Genkit statuses for failures that may not happen again.
+const RETRYABLE_STATUSES = ['DEADLINE_EXCEEDED', 'RESOURCE_EXHAUSTED', 'UNAVAILABLE', 'ABORTED', 'INTERNAL'];
+const RETRYABLE_CODES = ['ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+const RETRYABLE_MESSAGES = [/\b(429|500|502|503|504)\b/, /rate limit/i, /overloaded/i, /socket hang up/i, /timed? ?out/i, /try again/i];
+
+/** Whether a failed call may succeed if made again. */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof CallTimeoutError) {
+    return true;
+  }
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const { code, status } = error as Error & { code?: string; status?: string };
+  const causeCode = (error.cause as { code?: string } | undefined)?.code;
+  if (status && RETRYABLE_STATUSES.includes(status)) {
+    return true;
+  }
+  if ([code, causeCode].some((candidate) => candidate && RETRYABLE_CODES.includes(candidate))) {
+    return true;
+  }
+  return RETRYABLE_MESSAGES.some((pattern) => pattern.test(error.message));
+}
+
+/** The wait before a retry, 1-based, with up to 20% jitter so parallel callers spread out. */
+export function backoffDelay(retry: number, policy: RetryPolicy): number {
+  const delay = Math.min(policy.initialBackoffMs * 2 ** (retry - 1), policy.maxBackoffMs);
+  return Math.round(delay * (1 + Math.random() * 0.2));
+}
+
+/** Reported before each retry. */
+export type RetryNotice = {
+  retry: number;
+  maxRetries: number;
+  delayMs: number;
+  error: unknown;
+};
+
+// Rejects with a timeout once the limit has passed, whether or not the call
+// honoured its abort signal; the model plugins don't all read it.
+async function withTimeout<T>(call: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new CallTimeoutError(timeoutMs)), timeoutMs);
+  });
+  try {
+    return await Promise.race([call, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Makes a call under a retry policy. Each attempt gets a signal that aborts
+ * once the time limit has passed, for the call to hand to `ai.generate`, and
+ * counts as timed out at that point even if the call ignores the signal.
+ * Retryable failures are retried after a growing wait until the retries run
+ * out; the last failure, or the first fatal one, is thrown.
+ */
+export async function callWithRetries<T>(
+  call: (abortSignal: AbortSignal) => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  onRetry?: (notice: RetryNotice) => void
+): Promise<T> {
+  for (let retry = 0; ; retry++) {
+    const abortSignal = AbortSignal.timeout(policy.timeoutMs);
+    try {
+      return await withTimeout(call(abortSignal), policy.timeoutMs);
+    } catch (caught) {
+      const error = abortSignal.aborted ? new CallTimeoutError(policy.timeoutMs) : caught;
+      if (retry >= policy.maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+      const delayMs = backoffDelay(retry + 1, policy);
+      onRetry?.({ retry: retry + 1, maxRetries: policy.maxRetries, delayMs, error });
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
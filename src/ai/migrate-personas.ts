@@ -0,0 +1,29 @@
+import personas from '@/ai/personas.js';
+import { migrateLegacyPersona, type Persona } from '@/ai/persona';
+import { writePersonas } from '@/ai/persona-store';
+
+// Converts personas still described by a bracketed "[Контекст: ...]" system
+// prompt into structured fields, and bare `ollamaModel` names into `model`
+// references. Personas already up to date are left alone.
+async function main() {
+  const migrated: Record<string, Persona> = {};
+  const changed: string[] = [];
+  for (const [id, persona] of Object.entries(personas as Record<string, Persona>)) {
+    migrated[id] = migrateLegacyPersona(persona);
+    if (migrated[id] !== persona) {
+      changed.push(id);
+    }
+  }
+
+  if (changed.length === 0) {
+    console.log('No personas to migrate.');
+    return;
+  }
+  await writePersonas(migrated);
+  console.log(`Migrated ${changed.length} persona(s): ${changed.join(', ')}. Review the new fields in src/ai/personas.js.`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,88 @@
+import { configuredProviders } from '@/ai/genkit';
+import { listOllamaModels } from '@/ai/ollama-api';
+import { normalizeModelRef, type ModelProvider } from '@/ai/models';
+
+/**
+ * The models each configured provider actually offers, asked of the
+ * providers themselves: the Ollama server for what is installed on it, and
+ * the Gemini API for what the key can use.
+ */
+
+export type AvailableModel = {
+  /** Provider-qualified reference, as personas name it. */
+  ref: string;
+  provider: ModelProvider;
+  /** Size on disk in bytes, for local models. */
+  size?: number;
+  family?: string;
+};
+
+/** A configured provider whose model list couldn't be fetched. */
+export type UnreachableProvider = {
+  provider: ModelProvider;
+  message: string;
+};
+
+export type ModelCatalog = {
+  models: AvailableModel[];
+  unreachable: UnreachableProvider[];
+};
+
+const GEMINI_MODELS_URL = 'https://generativelanguage.googleapis.com/v1beta/models?pageSize=1000';
+const LIST_TIMEOUT_MS = 5000;
+
+async function listGoogleAIModels(): Promise<AvailableModel[]> {
+  const apiKey = process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY || '';
+  const response = await fetch(GEMINI_MODELS_URL, {
+    headers: { 'x-goog-api-key': apiKey },
+    signal: AbortSignal.timeout(LIST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Gemini model list error: ${response.status} ${response.statusText}`);
+  }
+  const { models = [] } = await response.json();
+  return (models as { name: string; supportedGenerationMethods?: string[] }[])
+    // Only models that can write a turn; embedding and TTS models can't.
+    .filter((model) => model.supportedGenerationMethods?.includes('generateContent') && !model.name.includes('tts'))
+    .map((model) => {
+      const name = model.name.replace(/^models\//, '');
+      return { ref: `googleai/${name}`, provider: 'googleai' as const, family: name.split('-')[0] };
+    });
+}
+
+async function listProviderModels(provider: ModelProvider): Promise<AvailableModel[]> {
+  switch (provider) {
+    case 'ollama':
+      return (await listOllamaModels()).map((model) => ({
+        ref: normalizeModelRef(`ollama/${model.name}`),
+        provider,
+        size: model.size,
+        family: model.family,
+      }));
+    case 'googleai':
+      return listGoogleAIModels();
+  }
+}
+
+/**
+ * Lists the models of every configured provider. A provider that can't be
+ * reached is reported rather than failing the whole list.
+ */
+export async function listAvailableModels(): Promise<ModelCatalog> {
+  const results = await Promise.allSettled(configuredProviders.map(listProviderModels));
+  const catalog: ModelCatalog = { models: [], unreachable: [] };
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      catalog.models.push(...result.value);
+    } else {
+      // fetch() reports a refused connection as "fetch failed", with the
+      // actual reason in its cause.
+      const reason = result.reason instanceof Error && result.reason.cause instanceof Error ? result.reason.cause : result.reason;
+      catalog.unreachable.push({
+        provider: configuredProviders[i],
+        message: reason instanceof Error ? reason.message : String(reason),
+      });
+    }
+  });
+  return catalog;
+}
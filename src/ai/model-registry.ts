@@ -0,0 +1,140 @@
+import { ai, configuredProviders } from '@/ai/genkit';
+import type { GenerateOptions, GenerateResponse, z } from 'genkit';
+import { callWithRetries, DEFAULT_RETRY_POLICY, isRetryableError, type RetryNotice, type RetryPolicy } from '@/ai/llm-call';
+import { formatModelRef, MODEL_PROVIDER_LABELS, parseModelRef, type ModelProvider } from '@/ai/models';
+
+// What it takes to make each provider available, for error messages.
+const PROVIDER_SETUP: Record<ModelProvider, string> = {
+  ollama: 'Run in development or set OLLAMA_HOST.',
+  googleai: 'Set GOOGLE_API_KEY or GEMINI_API_KEY.',
+};
+
+/** A model that can't be used: its provider is missing, unreachable, or doesn't have it. */
+export class ModelUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelUnavailableError';
+  }
+}
+
+/** Whether the provider of a model reference is configured. */
+export function isProviderConfigured(ref: string): boolean {
+  return configuredProviders.includes(parseModelRef(ref).provider);
+}
+
+/**
+ * Resolves a model reference, qualified or a bare Ollama name, to the name
+ * Genkit's registry knows the model by. Throws if the model's provider isn't
+ * configured, so a debate fails up front with a clear reason instead of on
+ * its first turn.
+ */
+export function resolveModel(ref: string): string {
+  const model = parseModelRef(ref);
+  if (!isProviderConfigured(ref)) {
+    throw new ModelUnavailableError(
+      `Model '${formatModelRef(model)}' needs the ${MODEL_PROVIDER_LABELS[model.provider]} provider, which is not configured. ${PROVIDER_SETUP[model.provider]}`
+    );
+  }
+  return formatModelRef(model);
+}
+
+// Network failures that mean the provider's server isn't there. Dropped
+// connections and timeouts are retried instead; see `isRetryableError`.
+const CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EHOSTUNREACH'];
+
+/**
+ * Whether an error from a generate call means the model can't be used at all,
+ * so the next model in a fallback list should be tried: the provider is not
+ * configured or can't be reached, or it doesn't have the model. Anything else,
+ * such as a malformed response, is the model's own failure.
+ */
+export function isModelUnavailable(error: unknown): boolean {
+  if (error instanceof ModelUnavailableError) {
+    return true;
+  }
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const { code, status } = error as Error & { code?: string; status?: string };
+  const causeCode = (error.cause as { code?: string } | undefined)?.code;
+  if ([code, causeCode].some((candidate) => candidate && CONNECTION_ERROR_CODES.includes(candidate))) {
+    return true;
+  }
+  // Genkit reports models missing from its registry as NOT_FOUND.
+  if (status === 'NOT_FOUND') {
+    return true;
+  }
+  const message = error.message.toLowerCase();
+  return CONNECTION_ERROR_CODES.some((candidate) => message.includes(candidate.toLowerCase()))
+    || message.includes('fetch failed')
+    || message.includes('not found')
+    || message.includes('404');
+}
+
+/** A model skipped for a call, and why. */
+export type SkippedModel = {
+  model: string;
+  reason: string;
+};
+
+// genkitx-ollama joins stop sequences into one string, so two or more never
+// match anything. Ollama models get only the first.
+function optionsFor<O extends z.ZodTypeAny>(model: string, options: Omit<GenerateOptions<O>, 'model'>): Omit<GenerateOptions<O>, 'model'> {
+  const stops = options.config?.stopSequences;
+  if (parseModelRef(model).provider !== 'ollama' || !Array.isArray(stops) || stops.length < 2) {
+    return options;
+  }
+  return { ...options, config: { ...options.config, stopSequences: stops.slice(0, 1) } };
+}
+
+export type FallbackOptions = {
+  /** Models known to be unavailable, shared between calls. */
+  unavailable?: Set<string>;
+  policy?: RetryPolicy;
+  /** Called before each retry of a model. */
+  onRetry?: (model: string, notice: RetryNotice) => void;
+};
+
+/**
+ * Generates with the first model in `models` that can be used, each under
+ * the retry policy, trying the next model whenever one turns out to be
+ * unavailable or keeps failing in ways worth retrying. Models already in
+ * `unavailable` are passed over, and models found unavailable are added to
+ * it, so a debate sharing one set stops retrying a dead model on every turn.
+ * If every model has been marked unavailable, all of them are tried again
+ * rather than failing without a call. Fatal errors are thrown as they are.
+ */
+export async function generateWithFallback<O extends z.ZodTypeAny = z.ZodTypeAny>(
+  models: string[],
+  options: Omit<GenerateOptions<O>, 'model'>,
+  { unavailable = new Set(), policy = DEFAULT_RETRY_POLICY, onRetry }: FallbackOptions = {}
+): Promise<{ response: GenerateResponse<z.infer<O>>; model: string; skipped: SkippedModel[]; retries: number }> {
+  const usable = models.filter((model) => !unavailable.has(model));
+  const candidates = usable.length > 0 ? usable : models;
+  const skipped: SkippedModel[] = [];
+  let retries = 0;
+  for (const model of candidates) {
+    try {
+      const response = await callWithRetries(
+        (abortSignal) => ai.generate<O>({ ...optionsFor(model, options), model: resolveModel(model), abortSignal }),
+        policy,
+        (notice) => {
+          retries++;
+          onRetry?.(model, notice);
+        }
+      );
+      unavailable.delete(model);
+      return { response, model, skipped, retries };
+    } catch (error) {
+      if (isModelUnavailable(error)) {
+        unavailable.add(model);
+      } else if (!isRetryableError(error)) {
+        throw error;
+      }
+      skipped.push({ model, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  throw new ModelUnavailableError(
+    `None of the models could be used: ${skipped.map(({ model, reason }) => `${model} (${reason})`).join('; ')}`
+  );
+}
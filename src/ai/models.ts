@@ -0,0 +1,72 @@
+/**
+ * Provider-qualified model references, such as "ollama/mistral" or
+ * "googleai/gemini-2.5-flash". Personas name their model this way in
+ * `model`; personas written before that name a bare Ollama model in
+ * `ollamaModel`, which is read as "ollama/<name>". A persona may also list
+ * `fallbackModels` to try, in order, when its model can't be used.
+ */
+
+export const MODEL_PROVIDERS = ['ollama', 'googleai'] as const;
+
+export type ModelProvider = (typeof MODEL_PROVIDERS)[number];
+
+export const MODEL_PROVIDER_LABELS: Record<ModelProvider, string> = {
+  ollama: 'Ollama',
+  googleai: 'Google AI',
+};
+
+export const DEFAULT_MODEL = 'ollama/mistral';
+
+export type ModelRef = {
+  provider: ModelProvider;
+  name: string;
+};
+
+/**
+ * Splits a reference into provider and model name. A reference without a
+ * known provider prefix is a bare Ollama model name, as older personas use.
+ */
+export function parseModelRef(ref: string): ModelRef {
+  const slash = ref.indexOf('/');
+  const prefix = slash > 0 ? ref.slice(0, slash) : '';
+  if ((MODEL_PROVIDERS as readonly string[]).includes(prefix)) {
+    return { provider: prefix as ModelProvider, name: ref.slice(slash + 1) };
+  }
+  return { provider: 'ollama', name: ref };
+}
+
+export function formatModelRef({ provider, name }: ModelRef): string {
+  return `${provider}/${name}`;
+}
+
+/**
+ * A reference in the form model lists use. Ollama reads a name without a tag
+ * as ":latest", so "ollama/mistral" and "ollama/mistral:latest" are the same
+ * model and both normalize to the former.
+ */
+export function normalizeModelRef(ref: string): string {
+  const { provider, name } = parseModelRef(ref);
+  return formatModelRef({ provider, name: provider === 'ollama' ? name.replace(/:latest$/, '') : name });
+}
+
+/** Whether a reference names a known provider and a model. */
+export function isQualifiedModelRef(ref: string): boolean {
+  const slash = ref.indexOf('/');
+  return slash > 0
+    && (MODEL_PROVIDERS as readonly string[]).includes(ref.slice(0, slash))
+    && ref.slice(slash + 1).trim().length > 0;
+}
+
+/** The model a persona speaks with, as a provider-qualified reference. */
+export function personaModel(persona: { model?: string; ollamaModel?: string }): string {
+  if (persona.model) {
+    return formatModelRef(parseModelRef(persona.model));
+  }
+  return persona.ollamaModel ? formatModelRef({ provider: 'ollama', name: persona.ollamaModel }) : DEFAULT_MODEL;
+}
+
+/** The models a persona may speak with, in the order to try them, without repeats. */
+export function personaModels(persona: { model?: string; ollamaModel?: string; fallbackModels?: string[] }): string[] {
+  const fallbacks = (persona.fallbackModels ?? []).map((ref) => formatModelRef(parseModelRef(ref)));
+  return [...new Set([personaModel(persona), ...fallbacks])];
+}
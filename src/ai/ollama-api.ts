@@ -0,0 +1,59 @@
+/**
+ * Direct calls to the Ollama HTTP API, for what the Genkit plugin doesn't
+ * cover. The server address follows Ollama's own OLLAMA_HOST convention.
+ */
+
+const DEFAULT_OLLAMA_HOST = 'http://127.0.0.1:11434';
+
+export function ollamaUrl(pathname: string): string {
+  const host = process.env.OLLAMA_HOST ?? DEFAULT_OLLAMA_HOST;
+  const base = /^https?:\/\//.test(host) ? host : `http://${host}`;
+  return new URL(pathname, base).toString();
+}
+
+/** Embeds a batch of texts, returning one vector per text in order. */
+export async function embedTexts(model: string, texts: string[]): Promise<number[][]> {
+  const response = await fetch(ollamaUrl('/api/embed'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model, input: texts }),
+  });
+  if (!response.ok) {
+    throw new Error(`Ollama embedding error: ${response.status} ${response.statusText}`);
+  }
+  const { embeddings } = await response.json();
+  if (!Array.isArray(embeddings) || embeddings.length !== texts.length) {
+    throw new Error(`Ollama returned ${embeddings?.length ?? 0} embeddings for ${texts.length} texts.`);
+  }
+  return embeddings;
+}
+
+/** A model installed on the Ollama server. */
+export type OllamaModel = {
+  /** The model's name with its tag, e.g. "mistral:latest". */
+  name: string;
+  /** Size on disk, in bytes. */
+  size: number;
+  family?: string;
+};
+
+// The model list is fetched while a dialog waits on it, so don't hang on a
+// server that accepts the connection but never answers.
+const LIST_TIMEOUT_MS = 5000;
+
+/** Lists the models installed on the Ollama server. */
+export async function listOllamaModels(): Promise<OllamaModel[]> {
+  const response = await fetch(ollamaUrl('/api/tags'), { signal: AbortSignal.timeout(LIST_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Ollama model list error: ${response.status} ${response.statusText}`);
+  }
+  const { models } = await response.json();
+  if (!Array.isArray(models)) {
+    throw new Error('Ollama returned no model list.');
+  }
+  return models.map((model: { name: string; size: number; details?: { family?: string } }) => ({
+    name: model.name,
+    size: model.size,
+    family: model.details?.family || undefined,
+  }));
+}
@@ -0,0 +1,12 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Persona } from '@/ai/persona';
+
+// Personas are kept as a CommonJS module in the source tree so both the app
+// and the Genkit dev server can import them directly.
+const PERSONAS_FILE = path.join(process.cwd(), 'src', 'ai', 'personas.js');
+
+export async function writePersonas(personas: Record<string, Persona>): Promise<void> {
+  const fileContent = `const personas = ${JSON.stringify(personas, null, 2)};\n\nmodule.exports = personas;\n`;
+  await fs.writeFile(PERSONAS_FILE, fileContent, 'utf-8');
+}
@@ -0,0 +1,217 @@
+import type { TurnLength } from '@/ai/turn-length';
+import { formatModelRef } from '@/ai/models';
+import type { GenerationConfig } from '@/ai/generation-config';
+import { cyrillicShare } from '@/ai/languages';
+
+/**
+ * The persona model. A historical figure is described by structured fields,
+ * and `buildSystemPrompt` turns them into the system prompt every debate
+ * prompt starts with. A persona may instead carry a free-form `systemPrompt`,
+ * which is used verbatim: the moderator does, and so do personas written
+ * before the structured model until `migrateLegacyPersona` converts them.
+ */
+
+export type PersonaProfile = {
+  birthYear?: number;
+  deathYear?: number;
+  /** The period they lived and worked in, e.g. "Victorian England". */
+  era?: string;
+  nationality?: string;
+  /** What they did: their profession or field of work. */
+  field?: string;
+  /** How they speak and argue. */
+  style?: string;
+  keyConcepts?: string[];
+  works?: string[];
+  rivals?: string[];
+  /** Things they must not know about, beyond everything after their death. */
+  knowledgeLimits?: string[];
+  /** The language they spoke and wrote in. */
+  language?: string;
+  /** Anything else about them: habits, grudges, convictions. */
+  notes?: string;
+};
+
+export type Persona = PersonaProfile & {
+  name: string;
+  voiceId: string;
+  /** Provider-qualified model reference, e.g. "ollama/mistral". */
+  model?: string;
+  /** Models to try in order when `model` can't be reached or doesn't exist. */
+  fallbackModels?: string[];
+  /** A bare Ollama model name, as personas named their model before `model`. */
+  ollamaModel?: string;
+  /** Sampling settings for this persona, over the debate's own. */
+  generationConfig?: GenerationConfig;
+  turnLength?: TurnLength;
+  /** Used verbatim instead of the template. */
+  systemPrompt?: string;
+};
+
+function list(items: string[] | undefined): string | undefined {
+  return items && items.length > 0 ? items.join(', ') : undefined;
+}
+
+// The wording of the template, in each language profiles are written in.
+type PromptTemplate = {
+  identity: (name: string) => string;
+  era: string;
+  style: string;
+  keyConcepts: string;
+  works: string;
+  rivals: string;
+  notes: string;
+  language: string;
+  after: (year: number) => string;
+  limits: (limits: string) => string;
+  stayInCharacter: string;
+};
+
+const TEMPLATES: Record<'en' | 'ru', PromptTemplate> = {
+  en: {
+    identity: (name) => `You are ${name}`,
+    era: 'Era',
+    style: 'Speaking style',
+    keyConcepts: 'Key ideas you are known for',
+    works: 'Your works',
+    rivals: 'Your rivals and opponents',
+    notes: 'Peculiarities',
+    language: 'Native language',
+    after: (year) => `anything that happened or was discovered after ${year}`,
+    limits: (limits) => `You know nothing of: ${limits}. Never refer to these as if you knew them.`,
+    stayInCharacter: 'Stay in character at all times.',
+  },
+  ru: {
+    identity: (name) => `Ты — ${name}`,
+    era: 'Эпоха',
+    style: 'Стиль речи',
+    keyConcepts: 'Ключевые концепции',
+    works: 'Твои труды',
+    rivals: 'Твои соперники и оппоненты',
+    notes: 'Особенности',
+    language: 'Родной язык',
+    after: (year) => `всё, что произошло или было открыто после ${year} года`,
+    limits: (limits) => `Тебе неизвестно: ${limits}. Никогда не говори об этом так, будто знаешь.`,
+    stayInCharacter: 'Всегда оставайся в образе.',
+  },
+};
+
+// Profiles are written in English or, like the bundled ones, in Russian.
+// The template follows them, so a prompt never mixes the two.
+function templateFor(persona: Persona): PromptTemplate {
+  const profile = [
+    persona.era, persona.nationality, persona.field, persona.style, persona.notes, persona.language,
+    ...(persona.keyConcepts ?? []), ...(persona.works ?? []), ...(persona.rivals ?? []), ...(persona.knowledgeLimits ?? []),
+  ].filter(Boolean).join(' ');
+  return cyrillicShare(profile) > 1 / 2 ? TEMPLATES.ru : TEMPLATES.en;
+}
+
+/**
+ * The persona's system prompt: their own if they have one, else the
+ * template, worded in the language their profile is written in.
+ */
+export function buildSystemPrompt(persona: Persona): string {
+  if (persona.systemPrompt) {
+    return persona.systemPrompt;
+  }
+
+  const template = templateFor(persona);
+  const lifespan = persona.birthYear !== undefined
+    ? ` (${persona.birthYear}-${persona.deathYear ?? ''})`
+    : '';
+  const identity = [persona.nationality, persona.field].filter(Boolean).join(' ');
+  const lines = [`${template.identity(persona.name)}${lifespan}${identity ? `, ${identity}` : ''}.`];
+
+  if (persona.era) lines.push(`${template.era}: ${persona.era}.`);
+  if (persona.style) lines.push(`${template.style}: ${persona.style}`);
+  if (list(persona.keyConcepts)) lines.push(`${template.keyConcepts}: ${list(persona.keyConcepts)}.`);
+  if (list(persona.works)) lines.push(`${template.works}: ${list(persona.works)}.`);
+  if (list(persona.rivals)) lines.push(`${template.rivals}: ${list(persona.rivals)}.`);
+  if (persona.notes) lines.push(`${template.notes}: ${persona.notes}`);
+  if (persona.language) lines.push(`${template.language}: ${persona.language}.`);
+
+  const limits = [
+    ...(persona.deathYear !== undefined ? [template.after(persona.deathYear)] : []),
+    ...(persona.knowledgeLimits ?? []),
+  ];
+  if (limits.length > 0) {
+    lines.push(template.limits(limits.join('; ')));
+  }
+
+  lines.push(template.stayInCharacter);
+  return lines.join('\n');
+}
+
+const LEGACY_LABELS: Record<string, 'style' | 'keyConcepts' | 'notes' | 'knowledgeLimits'> = {
+  'стиль': 'style',
+  'ключевые концепции': 'keyConcepts',
+  'особенности': 'notes',
+  'ограничения': 'knowledgeLimits',
+};
+
+function stripPeriod(text: string) {
+  return text.trim().replace(/\.$/, '');
+}
+
+// Replaces a bare `ollamaModel` with the equivalent `model` reference.
+function migrateModel(persona: Persona): Persona {
+  if (!persona.ollamaModel) {
+    return persona;
+  }
+  const { ollamaModel, ...rest } = persona;
+  return { ...rest, model: persona.model ?? formatModelRef({ provider: 'ollama', name: ollamaModel }) };
+}
+
+/**
+ * Brings a persona written for an older model up to date. A system prompt in
+ * the original bracketed format, "[Контекст: 1856-1943, изобретатель, ...]"
+ * followed by "Стиль: ..." style lines, becomes structured fields, and a bare
+ * `ollamaModel` becomes a `model` reference. A persona with nothing to migrate
+ * is returned as is.
+ */
+export function migrateLegacyPersona(legacy: Persona): Persona {
+  const persona = migrateModel(legacy);
+  const context = /^\s*\[Контекст:\s*([^\]]*)\]/.exec(persona.systemPrompt ?? '');
+  if (!context) {
+    return persona;
+  }
+
+  const { systemPrompt, ...rest } = persona;
+  const profile: PersonaProfile = {};
+  const [first, ...details] = context[1].split(',').map((part) => part.trim()).filter(Boolean);
+  const lifespan = /^(\d{3,4})\s*[-–]\s*(\d{3,4})$/.exec(first ?? '');
+  if (lifespan) {
+    profile.birthYear = Number(lifespan[1]);
+    profile.deathYear = Number(lifespan[2]);
+  } else if (first) {
+    details.unshift(first);
+  }
+  if (details.length > 0) {
+    profile.field = details.join(', ');
+  }
+
+  const extra: string[] = [];
+  for (const line of systemPrompt!.slice(context[0].length).split('\n')) {
+    const match = /^\s*([^:]+):\s*(.+)$/.exec(line);
+    if (!match) {
+      if (line.trim()) extra.push(line.trim());
+      continue;
+    }
+    const key = LEGACY_LABELS[match[1].trim().toLowerCase()];
+    const value = match[2].trim();
+    if (key === 'keyConcepts') {
+      profile.keyConcepts = stripPeriod(value).split(',').map((item) => item.trim()).filter(Boolean);
+    } else if (key === 'knowledgeLimits') {
+      profile.knowledgeLimits = [stripPeriod(value)];
+    } else if (key) {
+      profile[key] = value;
+    } else {
+      extra.push(line.trim());
+    }
+  }
+  if (extra.length > 0) {
+    profile.notes = [profile.notes, ...extra].filter(Boolean).join(' ');
+  }
+
+  return { ...rest, ...profile };
+}
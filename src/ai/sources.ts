@@ -0,0 +1,9 @@
+/**
+ * Limits on the source texts a debate can be given. Every text goes into each
+ * participant's prompt refinement, so they are capped to keep that prompt
+ * within what local models handle.
+ */
+
+export const MAX_HISTORICAL_TEXTS = 5;
+
+export const MAX_HISTORICAL_TEXT_LENGTH = 20000;
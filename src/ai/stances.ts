@@ -0,0 +1,52 @@
+/**
+ * Sides participants take on a debate's motion. The user may assign each
+ * participant a stance; whoever is left without one is assigned a stance by
+ * the moderator model from what the figure historically believed.
+ */
+
+export const STANCES = ['pro', 'con', 'neutral'] as const;
+
+export type Stance = (typeof STANCES)[number];
+
+export const STANCE_LABELS: Record<Stance, string> = {
+  pro: 'For',
+  con: 'Against',
+  neutral: 'Neutral',
+};
+
+export type StanceAssignment = {
+  participantId: string;
+  name: string;
+  stance: Stance;
+  assignedBy: 'user' | 'moderator';
+  /** Why the moderator gave them this stance. */
+  reason?: string;
+};
+
+/** The instruction a participant argues under, for their prompts. */
+export function describeStance(stance: Stance, motion: string): string {
+  switch (stance) {
+    case 'pro':
+      return `You argue FOR the motion "${motion}". Defend it and rebut those who oppose it; do not concede the motion.`;
+    case 'con':
+      return `You argue AGAINST the motion "${motion}". Attack it and rebut those who support it; do not concede the motion.`;
+    case 'neutral':
+      return `You are neutral on the motion "${motion}". Weigh the arguments of both sides critically and say where each one falls short.`;
+  }
+}
+
+const SIDE_NAMES: Record<Stance, string> = {
+  pro: 'For the motion',
+  con: 'Against the motion',
+  neutral: 'Neutral',
+};
+
+/** Participant names grouped by side, in the order pro, con, neutral, skipping empty sides. */
+export function groupBySide(assignments: StanceAssignment[]): { side: string; names: string[] }[] {
+  return STANCES
+    .map((stance) => ({
+      side: SIDE_NAMES[stance],
+      names: assignments.filter((assignment) => assignment.stance === stance).map((assignment) => assignment.name),
+    }))
+    .filter(({ names }) => names.length > 0);
+}
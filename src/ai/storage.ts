@@ -0,0 +1,33 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+// Debate audio is served by Next.js straight out of public/, one directory per
+// debate so concurrent runs and older results never share files.
+const DEBATES_DIR = 'debates';
+
+const DEBATE_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+export function createDebateId(): string {
+  return randomUUID();
+}
+
+export function isValidDebateId(debateId: string): boolean {
+  return DEBATE_ID_PATTERN.test(debateId);
+}
+
+/**
+ * Resolves the storage namespace of a single debate: `dir` is its directory on
+ * disk, `filePath` maps a file name into it and `publicPath` gives the same
+ * file's path relative to public/, which is what the transcript stores.
+ */
+export function getDebateStorage(debateId: string) {
+  if (!isValidDebateId(debateId)) {
+    throw new Error(`Invalid debate ID: ${debateId}`);
+  }
+  const dir = path.join(process.cwd(), 'public', DEBATES_DIR, debateId);
+  return {
+    dir,
+    filePath: (fileName: string) => path.join(dir, fileName),
+    publicPath: (fileName: string) => `${DEBATES_DIR}/${debateId}/${fileName}`,
+  };
+}
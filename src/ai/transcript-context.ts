@@ -0,0 +1,113 @@
+/**
+ * Bounds how much of the transcript a prompt gets to see. The last few turns
+ * stay verbatim; older rounds are replaced by summaries once the verbatim
+ * transcript outgrows its budget. The budget is counted in characters or in
+ * estimated tokens.
+ */
+
+export type ContextOptions = {
+  /** Turns at the end of the transcript that are always kept verbatim. */
+  recentTurns?: number;
+  maxTokens?: number;
+  /** Takes precedence over `maxTokens` when both are set. */
+  maxChars?: number;
+};
+
+export type ContextBudget = {
+  recentTurns: number;
+  limit: number;
+  unit: 'tokens' | 'chars';
+};
+
+export type ContextTurn = {
+  speaker: string;
+  text: string;
+  /** The round the turn was spoken in; 0 for the introduction. */
+  round: number;
+};
+
+export type RoundSummary = {
+  round: number;
+  text: string;
+};
+
+export type ContextEntry = {
+  speaker: string;
+  text: string;
+};
+
+export const DEFAULT_RECENT_TURNS = 6;
+
+// Small local models such as mistral lose track well before their nominal
+// context size, so keep the transcript modest by default.
+export const DEFAULT_CONTEXT_TOKENS = 1500;
+
+export function resolveContextBudget(options: ContextOptions = {}): ContextBudget {
+  const recentTurns = options.recentTurns ?? DEFAULT_RECENT_TURNS;
+  if (options.maxChars !== undefined) {
+    return { recentTurns, limit: options.maxChars, unit: 'chars' };
+  }
+  return { recentTurns, limit: options.maxTokens ?? DEFAULT_CONTEXT_TOKENS, unit: 'tokens' };
+}
+
+// Size of the entries as a prompt renders them ("speaker: text" per line).
+// Tokens are estimated at about four characters each.
+function measure(entries: ContextEntry[], unit: ContextBudget['unit']): number {
+  const chars = entries.reduce((total, { speaker, text }) => total + speaker.length + text.length + 3, 0);
+  return unit === 'chars' ? chars : Math.ceil(chars / 4);
+}
+
+function summaryLabel(round: number): string {
+  return round === 0 ? '[Summary of the introduction]' : `[Summary of round ${round}]`;
+}
+
+/**
+ * Rounds that should be summarized now: once the verbatim transcript no longer
+ * fits the budget, every round that lies entirely before the recent turns and
+ * has no summary yet.
+ */
+export function roundsToSummarize(turns: ContextTurn[], summaries: RoundSummary[], budget: ContextBudget): number[] {
+  if (measure(turns, budget.unit) <= budget.limit) {
+    return [];
+  }
+  const recentStart = Math.max(0, turns.length - budget.recentTurns);
+  const summarized = new Set(summaries.map((summary) => summary.round));
+  const rounds = new Set<number>();
+  turns.slice(0, recentStart).forEach(({ round }) => {
+    if (!summarized.has(round)) rounds.add(round);
+  });
+  // A round that continues into the recent turns isn't finished being old.
+  turns.slice(recentStart).forEach(({ round }) => rounds.delete(round));
+  return [...rounds].sort((a, b) => a - b);
+}
+
+/**
+ * The transcript as prompts see it. Older turns from summarized rounds are
+ * replaced by their round's summary; if that still exceeds the budget, the
+ * oldest entries are dropped, always keeping the latest turn.
+ */
+export function buildTranscriptContext(
+  turns: ContextTurn[],
+  summaries: RoundSummary[],
+  budget: ContextBudget
+): ContextEntry[] {
+  const recentStart = Math.max(0, turns.length - budget.recentTurns);
+  const summaryByRound = new Map(summaries.map((summary) => [summary.round, summary.text]));
+  const entries: ContextEntry[] = [];
+  const emitted = new Set<number>();
+
+  turns.forEach(({ speaker, text, round }, index) => {
+    const summary = summaryByRound.get(round);
+    if (index >= recentStart || summary === undefined) {
+      entries.push({ speaker, text });
+    } else if (!emitted.has(round)) {
+      emitted.add(round);
+      entries.push({ speaker: summaryLabel(round), text: summary });
+    }
+  });
+
+  while (entries.length > 1 && measure(entries, budget.unit) > budget.limit) {
+    entries.shift();
+  }
+  return entries;
+}
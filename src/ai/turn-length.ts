@@ -0,0 +1,78 @@
+/**
+ * How long each spoken turn should be. A debate sets a target for every
+ * speaker, and a persona may override it with its own `turnLength`. A target
+ * is either a preset or an explicit word range.
+ */
+
+export const TURN_LENGTH_PRESETS = ['short', 'medium', 'long'] as const;
+
+export type TurnLengthPreset = (typeof TURN_LENGTH_PRESETS)[number];
+
+export type WordRange = {
+  minWords: number;
+  maxWords: number;
+};
+
+export type TurnLength = TurnLengthPreset | WordRange;
+
+export const TURN_LENGTH_LABELS: Record<TurnLengthPreset, string> = {
+  'short': 'Short (1-2 sentences)',
+  'medium': 'Medium (a short paragraph)',
+  'long': 'Long (a developed argument)',
+};
+
+const PRESET_RANGES: Record<TurnLengthPreset, WordRange> = {
+  'short': { minWords: 15, maxWords: 40 },
+  'medium': { minWords: 40, maxWords: 100 },
+  'long': { minWords: 100, maxWords: 200 },
+};
+
+export const DEFAULT_TURN_LENGTH: TurnLengthPreset = 'short';
+
+/** Upper bound for a custom word range. */
+export const MAX_TURN_WORDS = 500;
+
+export function resolveTurnLength(length: TurnLength | undefined): WordRange {
+  if (length === undefined) {
+    return PRESET_RANGES[DEFAULT_TURN_LENGTH];
+  }
+  return typeof length === 'string' ? PRESET_RANGES[length] : length;
+}
+
+/** The target as prompts phrase it, e.g. "15-40 words". */
+export function describeWordRange({ minWords, maxWords }: WordRange): string {
+  return minWords === maxWords ? `about ${maxWords} words` : `${minWords}-${maxWords} words`;
+}
+
+export function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Whether a turn is far enough outside its target to act on: under half the
+ * minimum or over one and a half times the maximum. Models rarely hit a word
+ * count exactly, so anything closer is accepted as is.
+ */
+export function checkTurnLength(text: string, { minWords, maxWords }: WordRange): 'ok' | 'too-short' | 'too-long' {
+  const words = countWords(text);
+  if (words < minWords * 0.5) return 'too-short';
+  if (words > maxWords * 1.5) return 'too-long';
+  return 'ok';
+}
+
+/**
+ * Cuts text down to at most `maxWords`, dropping whole sentences from the end.
+ * The first sentence is always kept, so a turn never ends mid-sentence.
+ */
+export function trimToWordLimit(text: string, maxWords: number): string {
+  const sentences = text.trim().match(/[^.!?…]+(?:[.!?…]+["'»”)\]]*|$)\s*/g) ?? [text];
+  let result = '';
+  let words = 0;
+  for (const sentence of sentences) {
+    const sentenceWords = countWords(sentence);
+    if (result && words + sentenceWords > maxWords) break;
+    result += sentence;
+    words += sentenceWords;
+  }
+  return result.trim();
+}
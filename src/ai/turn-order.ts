@@ -0,0 +1,82 @@
+/**
+ * Strategies for the order in which participants speak within a round.
+ *
+ * - fixed: the order the participants were given in, every round.
+ * - round-robin: the given order, rotated by one place each round.
+ * - seeded-shuffle: a fresh shuffle every round, drawn from a seeded generator.
+ * - reverse: the given order in round 1, then the previous round reversed.
+ */
+export const TURN_ORDER_STRATEGIES = ['fixed', 'round-robin', 'seeded-shuffle', 'reverse'] as const;
+
+export type TurnOrderStrategy = (typeof TURN_ORDER_STRATEGIES)[number];
+
+export const TURN_ORDER_LABELS: Record<TurnOrderStrategy, string> = {
+  'fixed': 'Fixed order',
+  'round-robin': 'Round-robin rotation',
+  'seeded-shuffle': 'Shuffled (seeded)',
+  'reverse': 'Reverse each round',
+};
+
+export const DEFAULT_TURN_ORDER: TurnOrderStrategy = 'seeded-shuffle';
+
+export const MAX_SEED = 0xffffffff;
+
+export function createSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
+// mulberry32: small, fast and good enough for shuffling a handful of speakers.
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Returns a function that yields the speaking order for each successive round.
+ * It must be called once per round, in order: `reverse` and `seeded-shuffle`
+ * depend on the rounds before. The same strategy, participants and seed always
+ * produce the same sequence.
+ */
+export function createTurnOrder(
+  strategy: TurnOrderStrategy,
+  participants: string[],
+  seed: number
+): () => string[] {
+  const random = createRandom(seed);
+  let round = 0;
+  let previous: string[] | null = null;
+
+  return () => {
+    let order: string[];
+    switch (strategy) {
+      case 'fixed':
+        order = [...participants];
+        break;
+      case 'round-robin': {
+        const shift = round % participants.length;
+        order = [...participants.slice(shift), ...participants.slice(0, shift)];
+        break;
+      }
+      case 'seeded-shuffle':
+        // Fisher-Yates, unlike sorting with a random comparator, is unbiased.
+        order = [...participants];
+        for (let i = order.length - 1; i > 0; i--) {
+          const j = Math.floor(random() * (i + 1));
+          [order[i], order[j]] = [order[j], order[i]];
+        }
+        break;
+      case 'reverse':
+        order = previous ? [...previous].reverse() : [...participants];
+        break;
+    }
+    round++;
+    previous = order;
+    return order;
+  };
+}
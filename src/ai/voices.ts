@@ -0,0 +1,66 @@
+import { DEBATE_LANGUAGES, type DebateLanguage } from '@/ai/languages';
+
+/**
+ * The TTS voices personas can be given. Which voices are valid for a debate
+ * depends on the TTS provider in use and the languages each voice speaks.
+ * ElevenLabs' English model only speaks English, so debates in other
+ * languages go through its multilingual model.
+ */
+
+export const TTS_PROVIDERS = ['gemini', 'elevenlabs'] as const;
+
+export type TtsProvider = (typeof TTS_PROVIDERS)[number];
+
+export type Voice = {
+  id: string;
+  name: string;
+  provider: TtsProvider;
+  languages: readonly DebateLanguage[];
+};
+
+export const TTS_PROVIDER_LABELS: Record<TtsProvider, string> = {
+  gemini: 'Local',
+  elevenlabs: 'ElevenLabs',
+};
+
+// Gemini's TTS voices are multilingual: each one speaks every language the
+// model supports, which includes all debate languages.
+const GEMINI_LANGUAGES = DEBATE_LANGUAGES;
+
+// ElevenLabs' premade voices were recorded in English. The multilingual model
+// can read other languages with them, but with an English accent, so they are
+// only offered for English.
+const ELEVENLABS_PREMADE_LANGUAGES: readonly DebateLanguage[] = ['en'];
+
+export const VOICES: Voice[] = [
+  { id: 'Algenib', name: 'Algenib', provider: 'gemini', languages: GEMINI_LANGUAGES },
+  { id: 'Achernar', name: 'Achernar', provider: 'gemini', languages: GEMINI_LANGUAGES },
+  { id: 'Enif', name: 'Enif', provider: 'gemini', languages: GEMINI_LANGUAGES },
+  { id: 'Fomalhaut', name: 'Fomalhaut', provider: 'gemini', languages: GEMINI_LANGUAGES },
+  { id: 'Deneb', name: 'Deneb', provider: 'gemini', languages: GEMINI_LANGUAGES },
+  { id: 'Canopus', name: 'Canopus', provider: 'gemini', languages: GEMINI_LANGUAGES },
+  { id: '21m00Tcm4TlvDq8ikWAM', name: 'Rachel', provider: 'elevenlabs', languages: ELEVENLABS_PREMADE_LANGUAGES },
+  { id: '2EiwWnXFnvU5JabPnv8n', name: 'Clyde', provider: 'elevenlabs', languages: ELEVENLABS_PREMADE_LANGUAGES },
+  { id: 'AZnzlk1XvdvUeBnXmlld', name: 'Domi', provider: 'elevenlabs', languages: ELEVENLABS_PREMADE_LANGUAGES },
+  { id: 'D38z5RcWu1voky8WS1ja', name: 'Dave', provider: 'elevenlabs', languages: ELEVENLABS_PREMADE_LANGUAGES },
+  { id: 'VR6AewLTigWG4xSOukaG', name: 'Fin', provider: 'elevenlabs', languages: ELEVENLABS_PREMADE_LANGUAGES },
+];
+
+/** The ElevenLabs model that can speak the language. */
+export function elevenLabsModelFor(language: DebateLanguage): string {
+  return language === 'en' ? 'eleven_monolingual_v1' : 'eleven_multilingual_v2';
+}
+
+/** Voices that can speak the language, optionally limited to one provider. */
+export function voicesFor(language: DebateLanguage, provider?: TtsProvider): Voice[] {
+  return VOICES.filter((voice) => voice.languages.includes(language) && (!provider || voice.provider === provider));
+}
+
+/**
+ * Whether a voice can be used in a debate. Voices missing from the catalogue,
+ * such as custom ElevenLabs voices, can't be judged and are assumed valid.
+ */
+export function isValidVoice(voiceId: string, language: DebateLanguage, provider: TtsProvider): boolean {
+  const voice = VOICES.find((candidate) => candidate.id === voiceId);
+  return !voice || (voice.provider === provider && voice.languages.includes(language));
+}
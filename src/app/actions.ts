@@ -1,28 +1,16 @@
 
 'use server';
 
-import { generateHistoricalDebate, GenerateHistoricalDebateInput } from '@/ai/flows/generate-historical-debate';
-import { z } from 'zod';
-import { promises as fs } from 'fs';
-import path from 'path';
+import type { GenerateHistoricalDebateInput } from '@/ai/flows/generate-historical-debate';
 import personas from '@/ai/personas.js';
-
-const DebateInputSchema = z.object({
-  topic: z.string().min(3, "Topic must be at least 3 characters long."),
-  rounds: z.coerce.number().int().min(1).max(5),
-  participants: z.array(z.string())
-    .min(2, "Select at least two participants.")
-    .max(5, "Select at most five participants."),
-  generateAudio: z.boolean(),
-});
-
-const AddPersonaSchema = z.object({
-  id: z.string().min(3, "ID must be at least 3 characters long.").regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "ID can only contain lowercase letters, numbers, and hyphens."),
-  name: z.string().min(3, "Name must be at least 3 characters long."),
-  systemPrompt: z.string().min(10, "System prompt must be at least 10 characters long."),
-  voiceId: z.string().min(1, "Please select a voice."),
-  ollamaModel: z.string().min(1, "Please select a model."),
-});
+import { DebateInputSchema, PersonaInputSchema, type PersonaInput } from '@/lib/schemas';
+import { enqueueDebateJob, getDebateJob, listDebateJobs, resumeDebateJob } from '@/lib/jobs';
+import { MAX_AUDIENCE_QUESTION_LENGTH } from '@/ai/audience';
+import { deleteDebateRecord } from '@/ai/debate-store';
+import { revalidatePath } from 'next/cache';
+import { writePersonas } from '@/ai/persona-store';
+import type { Persona } from '@/ai/persona';
+import { listAvailableModels } from '@/ai/model-catalog';
 
 export async function createDebate(input: GenerateHistoricalDebateInput) {
   const validationResult = DebateInputSchema.safeParse(input);
@@ -34,23 +22,59 @@ export async function createDebate(input: GenerateHistoricalDebateInput) {
     };
   }
 
+  const job = enqueueDebateJob(validationResult.data);
+  return { status: 'success' as const, jobId: job.id };
+}
+
+export async function getDebateJobStatus(jobId: string) {
+  const job = getDebateJob(jobId);
+  if (!job) {
+    return { status: 'error' as const, message: `Job '${jobId}' was not found. It may have been lost when the server restarted.` };
+  }
+  return { status: 'success' as const, job };
+}
+
+export async function continueDebate(jobId: string, question?: string) {
+  if (question && question.trim().length > MAX_AUDIENCE_QUESTION_LENGTH) {
+    return { status: 'error' as const, message: `Questions can be at most ${MAX_AUDIENCE_QUESTION_LENGTH} characters long.` };
+  }
+  if (!resumeDebateJob(jobId, question)) {
+    return { status: 'error' as const, message: `Job '${jobId}' is not waiting for the audience.` };
+  }
+  return { status: 'success' as const };
+}
+
+export async function getDebateJobs() {
+  return { status: 'success' as const, jobs: listDebateJobs() };
+}
+
+export async function deleteDebate(debateId: string) {
   try {
-    const result = await generateHistoricalDebate(validationResult.data);
-    if (result.status === 'success') {
-        return { status: 'success' as const, data: result.data };
-    } else {
-      // This case might not happen based on the flow's output schema, but good to have
-      return { status: 'error' as const, message: 'The generation flow failed to return a success status.' };
+    const deleted = await deleteDebateRecord(debateId);
+    if (!deleted) {
+      return { status: 'error' as const, message: `Debate '${debateId}' was not found.` };
     }
+    revalidatePath('/debates');
+    return { status: 'success' as const };
+  } catch (error) {
+    console.error('Error deleting debate:', error);
+    const message = error instanceof Error ? error.message : 'An unexpected error occurred while deleting the debate.';
+    return { status: 'error' as const, message };
+  }
+}
+
+export async function getAvailableModels() {
+  try {
+    return { status: 'success' as const, ...(await listAvailableModels()) };
   } catch (error) {
-    console.error('Error in createDebate server action:', error);
-    const message = error instanceof Error ? error.message : 'An unexpected error occurred during debate generation.';
+    console.error('Error listing models:', error);
+    const message = error instanceof Error ? error.message : 'An unexpected error occurred while listing the models.';
     return { status: 'error' as const, message };
   }
 }
 
-export async function addPersona(values: z.infer<typeof AddPersonaSchema>) {
-    const validationResult = AddPersonaSchema.safeParse(values);
+export async function addPersona(values: PersonaInput) {
+    const validationResult = PersonaInputSchema.safeParse(values);
     if (!validationResult.success) {
         return {
             status: 'error' as const,
@@ -58,25 +82,19 @@ export async function addPersona(values: z.infer<typeof AddPersonaSchema>) {
         };
     }
 
-    const { id, name, systemPrompt, voiceId, ollamaModel } = validationResult.data;
+    const { id, ...fields } = validationResult.data;
 
     if (Object.keys(personas).includes(id)) {
         return { status: 'error' as const, message: `Participant with ID '${id}' already exists.` };
     }
 
-    const newPersona = {
-        name,
-        systemPrompt,
-        voiceId,
-        ollamaModel,
-    };
-
-    const personasFilePath = path.join(process.cwd(), 'src', 'ai', 'personas.js');
+    // Drop blank optional fields so the stored persona only has what was given.
+    const newPersona = Object.fromEntries(
+        Object.entries(fields).filter(([, value]) => value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0))
+    ) as Persona;
 
     try {
-        const currentPersonas = { ...personas, [id]: newPersona };
-        const fileContent = `const personas = ${JSON.stringify(currentPersonas, null, 2)};\n\nmodule.exports = personas;\n`;
-        await fs.writeFile(personasFilePath, fileContent, 'utf-8');
+        await writePersonas({ ...(personas as Record<string, Persona>), [id]: newPersona });
 
         return { status: 'success' as const, message: 'Participant added successfully!', persona: {id, ...newPersona }};
     } catch (error) {
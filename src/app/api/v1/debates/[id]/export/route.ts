@@ -0,0 +1,47 @@
+import { type NextRequest } from 'next/server';
+import { getDebateRecord } from '@/ai/debate-store';
+import { errorResponse } from '@/lib/api';
+import {
+  debateToJson,
+  debateToMarkdown,
+  EXPORT_FILE_EXTENSIONS,
+  EXPORT_FORMATS,
+  type ExportFormat,
+} from '@/lib/debate-export';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+/**
+ * GET /api/v1/debates/:id/export?format=markdown|json
+ *
+ * Downloads a stored debate's transcript, including citations. Defaults to
+ * Markdown.
+ *
+ * - 400 when the format is not supported.
+ * - 404 when no such debate exists.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const format = (request.nextUrl.searchParams.get('format') ?? 'markdown') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return errorResponse(400, 'invalid_format', `Format must be one of: ${EXPORT_FORMATS.join(', ')}.`);
+  }
+
+  const record = await getDebateRecord(id);
+  if (!record) {
+    return errorResponse(404, 'not_found', `Debate '${id}' was not found.`);
+  }
+
+  const body = format === 'json' ? debateToJson(record) : debateToMarkdown(record);
+  return new Response(body, {
+    headers: {
+      'Content-Type': format === 'json' ? 'application/json; charset=utf-8' : 'text/markdown; charset=utf-8',
+      'Content-Disposition': `attachment; filename="debate-${record.id}.${EXPORT_FILE_EXTENSIONS[format]}"`,
+    },
+  });
+}
@@ -0,0 +1,76 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { generateHistoricalDebate, type GenerateHistoricalDebateOutput } from '@/ai/flows/generate-historical-debate';
+import { errorResponse, parseDebateRequest } from '@/lib/api';
+
+// The flow writes audio to disk and shells out to ffmpeg, so it needs Node.
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type DebateData = GenerateHistoricalDebateOutput['data'];
+
+// The flow's output with its file paths replaced by absolute URLs. Every
+// other field is passed through, so new ones reach API callers too.
+type DebateResponseData = Omit<DebateData, 'transcript' | 'podcast'> & {
+  transcript: (Omit<DebateData['transcript'][number], 'audioFile'> & { audioUrl: string | null })[];
+  podcastUrl: string | null;
+};
+
+/**
+ * POST /api/v1/historicalDebate
+ *
+ * Accepts `{ topic, rounds, participants, generateAudio }` and responds with
+ * the flow's full output, such as the transcript, turn order and seed, with
+ * absolute URLs for every generated audio file.
+ *
+ * - 400 when the body is not valid JSON.
+ * - 422 when the input fails validation or references an unknown participant.
+ * - 502 when a model call fails, or when audio was requested but none of it
+ *   could be synthesized. The transcript is still returned in the latter case.
+ */
+export async function POST(request: NextRequest) {
+  const { input, response } = await parseDebateRequest(request);
+  if (response) {
+    return response;
+  }
+
+  let result;
+  try {
+    result = await generateHistoricalDebate(input);
+  } catch (error) {
+    console.error('Error in historicalDebate route:', error);
+    const message = error instanceof Error ? error.message : 'Debate generation failed.';
+    return errorResponse(502, 'model_failed', message);
+  }
+
+  const toUrl = (file: string) => new URL(`/${file}`, request.url).toString();
+  const { transcript, podcast, ...rest } = result.data;
+  const data: DebateResponseData = {
+    ...rest,
+    transcript: transcript.map(({ audioFile, ...turn }) => ({
+      ...turn,
+      audioUrl: audioFile ? toUrl(audioFile) : null,
+    })),
+    podcastUrl: podcast ? toUrl(podcast) : null,
+  };
+
+  if (input.generateAudio) {
+    const missingClips = transcript.filter((turn) => !turn.audioFile).length;
+    if (!podcast) {
+      return errorResponse(
+        502,
+        'tts_failed',
+        'Audio was requested but could not be synthesized.',
+        { data }
+      );
+    }
+    if (missingClips > 0) {
+      return NextResponse.json({
+        status: 'success',
+        data,
+        warnings: [`Audio synthesis failed for ${missingClips} turn(s).`],
+      });
+    }
+  }
+
+  return NextResponse.json({ status: 'success', data });
+}
@@ -0,0 +1,60 @@
+import type { NextRequest } from 'next/server';
+import { generateHistoricalDebate } from '@/ai/flows/generate-historical-debate';
+import { parseDebateRequest } from '@/lib/api';
+import type { DebateStreamEvent } from '@/lib/debate-stream';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/v1/historicalDebate/stream
+ *
+ * Same input as the non-streaming endpoint, answered with a
+ * `text/event-stream`: one event per turn and per finished audio clip, then a
+ * final `done` event carrying the full result (or an `error` event).
+ */
+export async function POST(request: NextRequest) {
+  const { input, response } = await parseDebateRequest(request);
+  if (response) {
+    return response;
+  }
+
+  const encoder = new TextEncoder();
+  // Set once the client disconnects. The debate still runs to the end, but
+  // its events have nowhere to go, and enqueueing on a cancelled stream throws.
+  let closed = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: DebateStreamEvent) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        }
+      };
+
+      try {
+        const result = await generateHistoricalDebate(input, { onChunk: send });
+        send({ type: 'done', data: result.data });
+      } catch (error) {
+        console.error('Error in historicalDebate stream route:', error);
+        const message = error instanceof Error ? error.message : 'Debate generation failed.';
+        send({ type: 'error', message });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,137 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeft, FileDown, FileJson } from 'lucide-react';
+import { getDebateRecord } from '@/ai/debate-store';
+import { TURN_ORDER_LABELS } from '@/ai/turn-order';
+import { DEBATE_FORMATS } from '@/ai/formats';
+import { SiteFooter, SiteHeader } from '@/components/site-header';
+import { DebateResult } from '@/components/debate-result';
+import { DeleteDebateButton } from '@/components/delete-debate-button';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+
+export const dynamic = 'force-dynamic';
+
+type DebatePageProps = {
+  params: Promise<{ id: string }>;
+};
+
+export default async function DebatePage({ params }: DebatePageProps) {
+  const { id } = await params;
+  const debate = await getDebateRecord(id);
+  if (!debate) {
+    notFound();
+  }
+
+  const speakers = [debate.moderator, ...debate.participants];
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <SiteHeader />
+      <main className="flex-grow container mx-auto px-4 py-8 md:py-12 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <Button asChild variant="ghost">
+            <Link href="/debates">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Library
+            </Link>
+          </Button>
+          <div className="flex gap-2">
+            <Button asChild variant="outline">
+              <a href={`/api/v1/debates/${debate.id}/export?format=markdown`} download>
+                <FileDown className="mr-2 h-4 w-4" />
+                Markdown
+              </a>
+            </Button>
+            <Button asChild variant="outline">
+              <a href={`/api/v1/debates/${debate.id}/export?format=json`} download>
+                <FileJson className="mr-2 h-4 w-4" />
+                JSON
+              </a>
+            </Button>
+            <DeleteDebateButton debateId={debate.id} topic={debate.input.topic} redirectTo="/debates" />
+          </div>
+        </div>
+
+        <div>
+          <h2 className="text-3xl font-headline font-semibold">{debate.input.topic}</h2>
+          <p className="text-muted-foreground mt-1">
+            Generated {new Date(debate.createdAt).toLocaleString()}, finished {new Date(debate.completedAt).toLocaleString()}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-8 xl:gap-12">
+          <div className="lg:col-span-3">
+            <DebateResult data={debate.data} />
+          </div>
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="font-headline text-xl tracking-wide">Speakers</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-3 text-sm">
+                  {speakers.map((speaker) => (
+                    <li key={speaker.id} className="flex justify-between gap-4">
+                      <span className="font-semibold">{speaker.name}</span>
+                      <span className="text-muted-foreground text-right">
+                        {speaker.model} · {speaker.voiceId}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                {debate.data.format && (
+                  <p className="text-xs text-muted-foreground mt-4">
+                    Format: {DEBATE_FORMATS[debate.data.format].label}
+                  </p>
+                )}
+                {debate.data.turnOrder && (
+                  <p className="text-xs text-muted-foreground mt-4">
+                    Turn order: {TURN_ORDER_LABELS[debate.data.turnOrder.strategy]}, seed{' '}
+                    <span className="font-mono">{debate.data.turnOrder.seed}</span>
+                  </p>
+                )}
+                {debate.ttsProvider && (
+                  <p className="text-xs text-muted-foreground mt-4">
+                    Voices synthesized with {debate.ttsProvider === 'gemini' ? 'Gemini TTS' : 'ElevenLabs'}.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+            {debate.promptEnhancements && debate.promptEnhancements.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="font-headline text-xl tracking-wide">Refined Personas</CardTitle>
+                  <CardDescription>
+                    Prompts refined against {debate.input.historicalTexts?.length ?? 0} source text(s) before the debate.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Accordion type="multiple">
+                    {debate.promptEnhancements.map((enhancement) => (
+                      <AccordionItem key={enhancement.personaId} value={enhancement.personaId}>
+                        <AccordionTrigger>{enhancement.name}</AccordionTrigger>
+                        <AccordionContent className="space-y-3">
+                          <div>
+                            <p className="text-xs font-semibold uppercase text-muted-foreground mb-1">Before</p>
+                            <p className="whitespace-pre-wrap text-muted-foreground">{enhancement.before}</p>
+                          </div>
+                          <div>
+                            <p className="text-xs font-semibold uppercase text-muted-foreground mb-1">After</p>
+                            <p className="whitespace-pre-wrap">{enhancement.after}</p>
+                          </div>
+                        </AccordionContent>
+                      </AccordionItem>
+                    ))}
+                  </Accordion>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </main>
+      <SiteFooter />
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import Link from 'next/link';
+import { Library, Volume2 } from 'lucide-react';
+import { listDebateRecords } from '@/ai/debate-store';
+import { SiteFooter, SiteHeader } from '@/components/site-header';
+import { DeleteDebateButton } from '@/components/delete-debate-button';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+// Reads the on-disk library on every request.
+export const dynamic = 'force-dynamic';
+
+export default async function DebatesPage() {
+  const debates = await listDebateRecords();
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <SiteHeader />
+      <main className="flex-grow container mx-auto px-4 py-8 md:py-12 space-y-6">
+        <div>
+          <h2 className="text-3xl font-headline font-semibold">Debate Library</h2>
+          <p className="text-muted-foreground mt-1">Every debate you have generated, newest first.</p>
+        </div>
+
+        {debates.length === 0 && (
+          <div className="flex flex-col items-center justify-center text-center min-h-[300px] bg-card rounded-lg p-8 border-dashed border-2">
+            <div className="p-4 bg-muted rounded-full mb-4">
+              <Library className="w-12 h-12 text-primary" />
+            </div>
+            <h3 className="text-2xl font-headline font-semibold">No Debates Yet</h3>
+            <p className="text-muted-foreground mt-2 max-w-sm">
+              Generated debates are saved here automatically.
+            </p>
+            <Button asChild className="mt-4">
+              <Link href="/">Create a Debate</Link>
+            </Button>
+          </div>
+        )}
+
+        <div className="grid gap-4">
+          {debates.map((debate) => (
+            <Card key={debate.id}>
+              <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle className="font-headline text-xl tracking-wide">
+                    <Link href={`/debates/${debate.id}`} className="hover:underline">
+                      {debate.topic}
+                    </Link>
+                  </CardTitle>
+                  <CardDescription>
+                    {new Date(debate.createdAt).toLocaleString()} · {debate.rounds} round{debate.rounds === 1 ? '' : 's'}
+                  </CardDescription>
+                </div>
+                <DeleteDebateButton debateId={debate.id} topic={debate.topic} />
+              </CardHeader>
+              <CardContent className="flex flex-wrap items-center gap-2">
+                {debate.participants.map((name) => (
+                  <Badge key={name} variant="secondary">{name}</Badge>
+                ))}
+                {debate.hasPodcast && (
+                  <Badge variant="outline">
+                    <Volume2 className="mr-1 h-3 w-3" />
+                    Podcast
+                  </Badge>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </main>
+      <SiteFooter />
+    </div>
+  );
+}
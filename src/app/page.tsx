@@ -1,63 +1,118 @@
 'use client';
 
-import React, { useState, useTransition, useRef, useEffect } from 'react';
-import { createDebate } from '@/app/actions';
+import React, { useState, useTransition, useRef, useEffect, useCallback } from 'react';
+import { createDebate, getDebateJobStatus, getDebateJobs } from '@/app/actions';
 import { DebateForm } from '@/components/debate-form';
 import { DebateResult, DebateResultSkeleton } from '@/components/debate-result';
-import type { GenerateHistoricalDebateOutput } from '@/ai/flows/generate-historical-debate';
+import { DebateJobList, DebateJobProgress } from '@/components/debate-jobs';
+import { AudienceQuestion } from '@/components/audience-question';
+import type { DebateJob, DebateJobSummary } from '@/lib/jobs';
 import { useToast } from '@/hooks/use-toast';
-import { History, MicVocal } from 'lucide-react';
-import type { z } from 'zod';
-import type { debateFormSchema } from '@/components/debate-form';
-import { ThemeToggle } from '@/components/theme-toggle';
+import Link from 'next/link';
+import { Library, MicVocal } from 'lucide-react';
+import type { DebateRequest } from '@/lib/schemas';
+import { SiteFooter, SiteHeader } from '@/components/site-header';
+import { Button } from '@/components/ui/button';
 
-type DebateData = GenerateHistoricalDebateOutput['data'];
+// The active job survives a page reload through localStorage.
+const ACTIVE_JOB_STORAGE_KEY = 'historicast.activeJobId';
+const POLL_INTERVAL_MS = 1500;
 
 export default function Home() {
   const [isPending, startTransition] = useTransition();
-  const [result, setResult] = useState<DebateData | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [job, setJob] = useState<DebateJob | null>(null);
+  const [jobs, setJobs] = useState<DebateJobSummary[]>([]);
   const resultRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
-  const handleFormSubmit = (values: z.infer<typeof debateFormSchema>) => {
-    setResult(null); // Clear previous results
+  const refreshJobs = useCallback(async () => {
+    const response = await getDebateJobs();
+    setJobs(response.jobs);
+  }, []);
+
+  const selectJob = useCallback((id: string | null) => {
+    setJob(null);
+    setJobId(id);
+    if (id) {
+      localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, id);
+    } else {
+      localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+    }
+  }, []);
+
+  useEffect(() => {
+    const savedJobId = localStorage.getItem(ACTIVE_JOB_STORAGE_KEY);
+    if (savedJobId) {
+      setJobId(savedJobId);
+    }
+    refreshJobs();
+  }, [refreshJobs]);
+
+  // Poll the active job until it settles.
+  useEffect(() => {
+    if (!jobId) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      const response = await getDebateJobStatus(jobId);
+      if (cancelled) return;
+
+      if (response.status === 'error') {
+        toast({
+          variant: 'destructive',
+          title: 'Job Not Found',
+          description: response.message,
+        });
+        selectJob(null);
+        return;
+      }
+
+      setJob(response.job);
+      if (response.job.status === 'queued' || response.job.status === 'running' || response.job.status === 'paused') {
+        timer = setTimeout(poll, POLL_INTERVAL_MS);
+      } else {
+        refreshJobs();
+      }
+    };
+    poll();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [jobId, refreshJobs, selectJob, toast]);
+
+  const handleFormSubmit = (values: DebateRequest) => {
     startTransition(async () => {
       const response = await createDebate(values);
       if (response.status === 'success') {
-        setResult(response.data);
+        selectJob(response.jobId);
+        refreshJobs();
       } else {
         toast({
           variant: 'destructive',
           title: 'Error Generating Debate',
           description: response.message,
         });
-        setResult(null);
       }
     });
   };
 
   useEffect(() => {
-    if (result && resultRef.current) {
+    if (jobId && resultRef.current) {
       resultRef.current.scrollIntoView({ behavior: 'smooth', block: 'start' });
     }
-  }, [result]);
+  }, [jobId]);
+
+  const isRunning = job?.status === 'queued' || job?.status === 'running' || job?.status === 'paused';
+  const hasTranscript = (job?.data.transcript.length ?? 0) > 0;
 
   return (
     <div className="flex flex-col min-h-screen">
-      <header className="py-6 px-4 md:px-8 border-b">
-        <div className="container mx-auto flex items-center gap-4">
-          <History className="h-8 w-8 text-primary" />
-          <h1 className="text-3xl font-headline font-bold text-primary">
-            HistoriCast
-          </h1>
-          <p className="text-muted-foreground mt-1.5 hidden md:block">
-            Generate virtual debate podcasts between historical figures.
-          </p>
-          <div className="ml-auto">
-            <ThemeToggle />
-          </div>
-        </div>
-      </header>
+      <SiteHeader />
       <main className="flex-grow container mx-auto px-4 py-8 md:py-12">
         <div className="grid grid-cols-1 lg:grid-cols-5 gap-8 xl:gap-12">
           <div className="lg:col-span-2">
@@ -65,14 +120,27 @@ export default function Home() {
               <DebateForm onFormSubmit={handleFormSubmit} isPending={isPending} />
             </div>
           </div>
-          <div className="lg:col-span-3">
-            {isPending && <DebateResultSkeleton />}
-            {!isPending && result && (
-              <div ref={resultRef}>
-                <DebateResult data={result} />
-              </div>
+          <div className="lg:col-span-3 space-y-8" ref={resultRef}>
+            {jobId && !job && <DebateResultSkeleton />}
+            {job && job.status !== 'succeeded' && <DebateJobProgress job={job} />}
+            {job?.status === 'paused' && (
+              <AudienceQuestion
+                jobId={job.id}
+                round={job.progress.round}
+                onResumed={() => setJob({ ...job, status: 'running' })}
+              />
+            )}
+            {job && isRunning && !hasTranscript && <DebateResultSkeleton />}
+            {job && hasTranscript && <DebateResult key={job.id} data={job.data} isLive={isRunning} />}
+            {job?.status === 'succeeded' && (
+              <Button asChild variant="outline">
+                <Link href={`/debates/${job.id}`}>
+                  <Library className="mr-2 h-4 w-4" />
+                  Open in Library
+                </Link>
+              </Button>
             )}
-            {!isPending && !result && (
+            {!jobId && (
               <div className="flex flex-col items-center justify-center text-center h-full min-h-[400px] bg-card rounded-lg p-8 border-dashed border-2">
                 <div className="p-4 bg-muted rounded-full mb-4">
                   <MicVocal className="w-12 h-12 text-primary" />
@@ -83,12 +151,13 @@ export default function Home() {
                 </p>
               </div>
             )}
+            {jobs.length > 0 && (
+              <DebateJobList jobs={jobs} activeJobId={jobId} onSelect={selectJob} />
+            )}
           </div>
         </div>
       </main>
-      <footer className="text-center p-4 text-muted-foreground text-sm border-t">
-        Powered by Genkit, ElevenLabs, and Next.js.
-      </footer>
+      <SiteFooter />
     </div>
   );
 }
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useTransition } from 'react';
+import React, { useEffect, useMemo, useState, useTransition } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -15,6 +15,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -30,65 +31,226 @@ import {
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
-import { Loader2 } from 'lucide-react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
-import { addPersona } from '@/app/actions';
+import { addPersona, getAvailableModels } from '@/app/actions';
+import { TURN_LENGTH_LABELS, TURN_LENGTH_PRESETS } from '@/ai/turn-length';
+import { TTS_PROVIDER_LABELS, voicesFor } from '@/ai/voices';
+import { DEBATE_LANGUAGES, DEFAULT_DEBATE_LANGUAGE, LANGUAGE_NAMES, type DebateLanguage } from '@/ai/languages';
+import { DEFAULT_MODEL, isQualifiedModelRef, MODEL_PROVIDER_LABELS, normalizeModelRef, parseModelRef, personaModels } from '@/ai/models';
+import type { ModelCatalog } from '@/ai/model-catalog';
+import type { Persona } from '@/ai/persona';
+import { formatBytes } from '@/lib/utils';
+import { MAX_OUTPUT_TOKENS, MAX_STOP_SEQUENCES, MAX_TEMPERATURE } from '@/ai/generation-config';
+import { MAX_SEED } from '@/ai/turn-order';
+import type { PersonaInput } from '@/lib/schemas';
 
 
+const optionalYear = z.string().regex(/^(-?\d{1,4})?$/, "Enter a year, e.g. 1879.");
+
+const optionalNumber = (min: number, max: number, message: string, integer = false) =>
+  z.string().refine((value) => {
+    if (!value.trim()) {
+      return true;
+    }
+    const number = Number(value);
+    return Number.isFinite(number) && number >= min && number <= max && (!integer || Number.isInteger(number));
+  }, message);
+
 const addPersonaSchema = z.object({
   id: z.string().min(3, "ID must be at least 3 characters long.").regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "ID can only contain lowercase letters, numbers, and hyphens."),
   name: z.string().min(3, "Name must be at least 3 characters long."),
-  systemPrompt: z.string().min(10, "System prompt must be at least 10 characters long."),
+  birthYear: optionalYear,
+  deathYear: optionalYear,
+  era: z.string(),
+  nationality: z.string(),
+  field: z.string(),
+  style: z.string(),
+  keyConcepts: z.string(),
+  works: z.string(),
+  rivals: z.string(),
+  knowledgeLimits: z.string(),
+  language: z.string(),
+  notes: z.string(),
+  systemPrompt: z.string().refine((value) => value === '' || value.trim().length >= 10, "System prompt must be at least 10 characters long."),
+  voiceLanguage: z.enum(DEBATE_LANGUAGES),
   voiceId: z.string().min(1, "Please select a voice."),
-  ollamaModel: z.string().min(1, "Please select a model."),
+  model: z.string().min(1, "Please select a model."),
+  fallbackModels: z.string().refine((value) => toList(value, ',').every(isQualifiedModelRef), "Name each model with its provider, e.g. ollama/mistral."),
+  turnLength: z.enum([...TURN_LENGTH_PRESETS, 'default']),
+  temperature: optionalNumber(0, MAX_TEMPERATURE, `Enter a number from 0 to ${MAX_TEMPERATURE}.`),
+  topP: optionalNumber(0, 1, "Enter a number from 0 to 1."),
+  maxOutputTokens: optionalNumber(1, MAX_OUTPUT_TOKENS, `Enter a whole number from 1 to ${MAX_OUTPUT_TOKENS}.`, true),
+  seed: optionalNumber(0, MAX_SEED, "Enter a whole number that fits in 32 bits.", true),
+  stopSequences: z.string().refine((value) => toList(value, ',').length <= MAX_STOP_SEQUENCES, `Give at most ${MAX_STOP_SEQUENCES} stop sequences.`),
+}).refine(({ field, systemPrompt }) => field.trim() || systemPrompt.trim(), {
+  message: "Describe the participant's field, or give a custom system prompt.",
+  path: ['field'],
 });
 
-const availableVoices = [
-    { id: "Algenib", name: "Algenib (Local)" },
-    { id: "Achernar", name: "Achernar (Local)" },
-    { id: "Enif", name: "Enif (Local)" },
-    { id: "Fomalhaut", name: "Fomalhaut (Local)" },
-    { id: "Deneb", name: "Deneb (Local)" },
-    { id: "Canopus", name: "Canopus (Local)" },
-    { id: "21m00Tcm4TlvDq8ikWAM", name: "Rachel (ElevenLabs)" },
-    { id: "2EiwWnXFnvU5JabPnv8n", name: "Clyde (ElevenLabs)" },
-    { id: "AZnzlk1XvdvUeBnXmlld", name: "Domi (ElevenLabs)" },
-    { id: "D38z5RcWu1voky8WS1ja", name: "Dave (ElevenLabs)" },
-    { id: "VR6AewLTigWG4xSOukaG", name: "Fin (ElevenLabs)" },
-];
-
-const ollamaModels = ["mistral", "qwen3:8b"];
+type AddPersonaFormValues = z.infer<typeof addPersonaSchema>;
+
+function toNumber(value: string) {
+  return value.trim() ? Number(value) : undefined;
+}
+
+function toList(value: string, separator: string | RegExp) {
+  return value.split(separator).map((item) => item.trim()).filter(Boolean);
+}
+
+function toPersonaInput(values: AddPersonaFormValues): PersonaInput {
+  const {
+    birthYear, deathYear, keyConcepts, works, rivals, knowledgeLimits, systemPrompt, fallbackModels, turnLength,
+    // The voice language only narrows the voice picker; it isn't stored.
+    temperature, topP, maxOutputTokens, seed, stopSequences, voiceLanguage: _voiceLanguage, ...rest
+  } = values;
+  const stops = toList(stopSequences, ',');
+  const generationConfig = {
+    temperature: toNumber(temperature),
+    topP: toNumber(topP),
+    maxOutputTokens: toNumber(maxOutputTokens),
+    seed: toNumber(seed),
+    stopSequences: stops.length > 0 ? stops : undefined,
+  };
+  return {
+    ...rest,
+    birthYear: toNumber(birthYear),
+    deathYear: toNumber(deathYear),
+    keyConcepts: toList(keyConcepts, ','),
+    works: toList(works, ';'),
+    rivals: toList(rivals, ','),
+    knowledgeLimits: toList(knowledgeLimits, '\n'),
+    systemPrompt: systemPrompt.trim() || undefined,
+    fallbackModels: toList(fallbackModels, ','),
+    turnLength: turnLength === 'default' ? undefined : turnLength,
+    generationConfig: Object.values(generationConfig).some((value) => value !== undefined) ? generationConfig : undefined,
+  };
+}
+
+const textFields = [
+  { name: 'era', label: 'Era', placeholder: 'e.g., Interwar Germany' },
+  { name: 'nationality', label: 'Nationality', placeholder: 'e.g., German-born' },
+  { name: 'field', label: 'Field', placeholder: 'e.g., theoretical physicist' },
+  { name: 'language', label: 'Native Language', placeholder: 'e.g., German' },
+] as const;
+
+const generationFields = [
+  { name: 'temperature', label: 'Temperature', placeholder: 'e.g., 0.7' },
+  { name: 'topP', label: 'Top P', placeholder: 'e.g., 0.9' },
+  { name: 'maxOutputTokens', label: 'Max Output Tokens', placeholder: 'e.g., 512' },
+  { name: 'seed', label: 'Seed', placeholder: 'e.g., 42' },
+] as const;
+
+const listFields = [
+  { name: 'keyConcepts', label: 'Key Concepts', placeholder: 'Relativity, light quanta, ...', description: 'Separate with commas.' },
+  { name: 'works', label: 'Works', placeholder: 'On the Electrodynamics of Moving Bodies; ...', description: 'Separate with semicolons.' },
+  { name: 'rivals', label: 'Rivals', placeholder: 'Niels Bohr, ...', description: 'Separate with commas.' },
+] as const;
+
+/** What the dialog needs to know of a persona: who it is and which models it uses. */
+export type PersonaOption = Pick<Persona, 'name' | 'model' | 'ollamaModel' | 'fallbackModels'> & { id: string };
 
 type AddParticipantDialogProps = {
   isOpen: boolean;
   onOpenChange: (isOpen: boolean) => void;
-  onPersonaAdded: (persona: { id: string; name: string }) => void;
+  /** The personas there are now, including any added since the page loaded. */
+  personas: PersonaOption[];
+  onPersonaAdded: (persona: PersonaOption) => void;
 };
 
 export function AddParticipantDialog({
   isOpen,
   onOpenChange,
+  personas,
   onPersonaAdded,
 }: AddParticipantDialogProps) {
   const [isPending, startTransition] = useTransition();
+  const [catalog, setCatalog] = useState<ModelCatalog | null>(null);
+  const [catalogError, setCatalogError] = useState<string | null>(null);
   const { toast } = useToast();
 
-  const form = useForm<z.infer<typeof addPersonaSchema>>({
+  const form = useForm<AddPersonaFormValues>({
     resolver: zodResolver(addPersonaSchema),
     defaultValues: {
       id: '',
       name: '',
+      birthYear: '',
+      deathYear: '',
+      era: '',
+      nationality: '',
+      field: '',
+      style: '',
+      keyConcepts: '',
+      works: '',
+      rivals: '',
+      knowledgeLimits: '',
+      language: '',
+      notes: '',
       systemPrompt: '',
+      voiceLanguage: DEFAULT_DEBATE_LANGUAGE,
       voiceId: '',
-      ollamaModel: 'mistral',
+      model: DEFAULT_MODEL,
+      fallbackModels: '',
+      turnLength: 'default',
+      temperature: '',
+      topP: '',
+      maxOutputTokens: '',
+      seed: '',
+      stopSequences: '',
     },
   });
+  const voiceLanguage = form.watch('voiceLanguage');
+
+  // Ask the providers which models they have each time the dialog opens, since
+  // models may have been pulled or removed in the meantime.
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    let cancelled = false;
+    setCatalog(null);
+    setCatalogError(null);
+    getAvailableModels().then((result) => {
+      if (cancelled) {
+        return;
+      }
+      if (result.status === 'error') {
+        setCatalogError(result.message);
+        return;
+      }
+      setCatalog(result);
+      const refs = result.models.map((model) => model.ref);
+      if (!refs.includes(form.getValues('model'))) {
+        form.setValue('model', refs.includes(DEFAULT_MODEL) ? DEFAULT_MODEL : refs[0] ?? '');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, form]);
 
-  const handleAddPersona = async (values: z.infer<typeof addPersonaSchema>) => {
+  // Existing personas naming a model that isn't available. Models of a
+  // provider that couldn't be asked are left out, since nobody knows.
+  const missingModels = useMemo(() => {
+    if (!catalog) {
+      return [];
+    }
+    const available = new Set(catalog.models.map((model) => model.ref));
+    const unreachable = new Set(catalog.unreachable.map(({ provider }) => provider));
+    return personas.flatMap((persona) =>
+      personaModels(persona)
+        .filter((ref) => !unreachable.has(parseModelRef(ref).provider) && !available.has(normalizeModelRef(ref)))
+        .map((ref) => ({ name: persona.name, ref }))
+    );
+  }, [catalog, personas]);
+
+  const handleAddPersona = async (values: AddPersonaFormValues) => {
     startTransition(async () => {
-      const result = await addPersona(values);
+      const result = await addPersona(toPersonaInput(values));
       if (result.status === 'success') {
-        onPersonaAdded({id: result.persona.id, name: result.persona.name});
+        const { id, name, model, fallbackModels } = result.persona;
+        onPersonaAdded({ id, name, model, fallbackModels });
         onOpenChange(false);
         form.reset();
       } else {
@@ -103,7 +265,7 @@ export function AddParticipantDialog({
 
   return (
     <Dialog open={isOpen} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[480px]">
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Add New Participant</DialogTitle>
           <DialogDescription>
@@ -147,16 +309,125 @@ export function AddParticipantDialog({
                 </FormItem>
               )}
             />
-             <FormField
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="birthYear"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Born</FormLabel>
+                    <FormControl>
+                      <Input inputMode="numeric" placeholder="e.g., 1879" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="deathYear"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Died</FormLabel>
+                    <FormControl>
+                      <Input inputMode="numeric" placeholder="e.g., 1955" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {textFields.map(({ name, label, placeholder }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input placeholder={placeholder} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+            <FormField
+              control={form.control}
+              name="style"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Speaking Style</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., playful, fond of thought experiments" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {listFields.map(({ name, label, placeholder, description }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Input placeholder={placeholder} {...field} />
+                    </FormControl>
+                    <FormDescription>{description}</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+            <FormField
+              control={form.control}
+              name="knowledgeLimits"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Knowledge Limits</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Things they must not know about, one per line."
+                      className="min-h-[60px]"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>Everything after the year of death is excluded automatically.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Habits, convictions, grudges..."
+                      className="min-h-[60px]"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
               control={form.control}
               name="systemPrompt"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>System Prompt / Persona</FormLabel>
+                  <FormLabel>Custom System Prompt (optional)</FormLabel>
                   <FormControl>
                     <Textarea
-                      placeholder="Describe the persona's context, style, and limitations."
-                      className="min-h-[100px]"
+                      placeholder="Replaces the prompt built from the fields above."
+                      className="min-h-[80px]"
                       {...field}
                     />
                   </FormControl>
@@ -166,21 +437,53 @@ export function AddParticipantDialog({
             />
 
             <div className="grid grid-cols-2 gap-4">
+               <FormField
+                  control={form.control}
+                  name="voiceLanguage"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Voice Language</FormLabel>
+                      <Select
+                        onValueChange={(value) => {
+                          field.onChange(value);
+                          // A voice that can't speak the new language has to be picked again.
+                          if (!voicesFor(value as DebateLanguage).some((voice) => voice.id === form.getValues('voiceId'))) {
+                            form.setValue('voiceId', '');
+                          }
+                        }}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {DEBATE_LANGUAGES.map(language => (
+                            <SelectItem key={language} value={language}>{LANGUAGE_NAMES[language]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>The language of the debates they will mostly speak in.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                <FormField
                   control={form.control}
                   name="voiceId"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>Voice</FormLabel>
-                       <Select onValueChange={field.onChange} defaultValue={field.value}>
+                       <Select onValueChange={field.onChange} value={field.value}>
                           <FormControl>
                             <SelectTrigger>
                                 <SelectValue placeholder="Select a voice" />
                             </SelectTrigger>
                            </FormControl>
                           <SelectContent>
-                            {availableVoices.map(voice => (
-                                <SelectItem key={voice.id} value={voice.id}>{voice.name}</SelectItem>
+                            {voicesFor(voiceLanguage).map(voice => (
+                                <SelectItem key={voice.id} value={voice.id}>{voice.name} ({TTS_PROVIDER_LABELS[voice.provider]})</SelectItem>
                             ))}
                           </SelectContent>
                       </Select>
@@ -190,19 +493,26 @@ export function AddParticipantDialog({
                 />
                 <FormField
                   control={form.control}
-                  name="ollamaModel"
+                  name="model"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel>AI Model</FormLabel>
-                       <Select onValueChange={field.onChange} defaultValue={field.value}>
+                       <Select onValueChange={field.onChange} value={field.value} disabled={!catalog || catalog.models.length === 0}>
                           <FormControl>
                             <SelectTrigger>
-                                <SelectValue placeholder="Select a model" />
+                                <SelectValue placeholder={catalog ? 'No models available' : 'Loading models...'} />
                             </SelectTrigger>
                            </FormControl>
                           <SelectContent>
-                            {ollamaModels.map(model => (
-                                <SelectItem key={model} value={model}>{model}</SelectItem>
+                            {catalog?.models.map(model => (
+                                <SelectItem key={model.ref} value={model.ref}>
+                                  {model.ref}
+                                  {(!!model.family || !!model.size) && (
+                                    <span className="ml-2 text-xs text-muted-foreground">
+                                      {[model.family, model.size && formatBytes(model.size)].filter(Boolean).join(', ')}
+                                    </span>
+                                  )}
+                                </SelectItem>
                             ))}
                           </SelectContent>
                       </Select>
@@ -212,6 +522,101 @@ export function AddParticipantDialog({
                 />
             </div>
 
+            {(catalogError || (catalog && (catalog.unreachable.length > 0 || missingModels.length > 0))) && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Some models are unavailable</AlertTitle>
+                <AlertDescription>
+                  <ul className="list-disc pl-4 space-y-1">
+                    {catalogError && <li>Could not list the models: {catalogError}</li>}
+                    {catalog?.unreachable.map(({ provider, message }) => (
+                      <li key={provider}>Could not reach {MODEL_PROVIDER_LABELS[provider]}: {message}</li>
+                    ))}
+                    {missingModels.map(({ name, ref }) => (
+                      <li key={`${name}-${ref}`}>{name} uses {ref}, which is not available.</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <FormField
+              control={form.control}
+              name="fallbackModels"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Fallback Models (Optional)</FormLabel>
+                  <FormControl>
+                    <Input placeholder={catalog?.models.slice(1, 3).map((model) => model.ref).join(', ') || 'e.g., ollama/mistral'} {...field} />
+                  </FormControl>
+                  <FormDescription>Tried in order when the model above can't be reached or isn't installed. Separate with commas.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="turnLength"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Turn Length</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="default">Debate default</SelectItem>
+                      {TURN_LENGTH_PRESETS.map(preset => (
+                        <SelectItem key={preset} value={preset}>{TURN_LENGTH_LABELS[preset]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-1">
+              <h4 className="text-sm font-medium">Generation Settings (Optional)</h4>
+              <p className="text-sm text-muted-foreground">
+                Leave a setting blank to use the debate&apos;s, or the provider&apos;s default. A higher temperature makes the participant bolder and less predictable.
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {generationFields.map(({ name, label, placeholder }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input inputMode="decimal" placeholder={placeholder} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+            <FormField
+              control={form.control}
+              name="stopSequences"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Stop Sequences</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Moderator:" {...field} />
+                  </FormControl>
+                  <FormDescription>Turns stop at any of these. Separate with commas. Ollama models use only the first.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
 
             <DialogFooter>
               <Button
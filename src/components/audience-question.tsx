@@ -0,0 +1,70 @@
+'use client';
+
+import React, { useState, useTransition } from 'react';
+import { Loader2, MessageCircleQuestion, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { continueDebate } from '@/app/actions';
+import { MAX_AUDIENCE_QUESTION_LENGTH } from '@/ai/audience';
+
+type AudienceQuestionProps = {
+  jobId: string;
+  round: number;
+  /** Called once the debate has been resumed. */
+  onResumed: () => void;
+};
+
+/** Shown while an interactive debate is paused between rounds. */
+export function AudienceQuestion({ jobId, round, onResumed }: AudienceQuestionProps) {
+  const [question, setQuestion] = useState('');
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  const resume = (withQuestion: boolean) => {
+    startTransition(async () => {
+      const response = await continueDebate(jobId, withQuestion ? question : undefined);
+      if (response.status === 'success') {
+        setQuestion('');
+        onResumed();
+      } else {
+        toast({
+          variant: 'destructive',
+          title: 'Could Not Resume',
+          description: response.message,
+        });
+      }
+    });
+  };
+
+  return (
+    <Card className="shadow-lg border-primary">
+      <CardHeader>
+        <CardTitle className="font-headline text-xl tracking-wide">Questions from the Audience</CardTitle>
+        <CardDescription>
+          Round {round} is over. Ask the participants something, and the next round will take it up.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Textarea
+          placeholder="e.g., Mr. Tesla, what would you build with unlimited funding?"
+          maxLength={MAX_AUDIENCE_QUESTION_LENGTH}
+          value={question}
+          disabled={isPending}
+          onChange={(e) => setQuestion(e.target.value)}
+        />
+        <div className="flex gap-2">
+          <Button type="button" disabled={isPending || !question.trim()} onClick={() => resume(true)}>
+            {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <MessageCircleQuestion className="mr-2 h-4 w-4" />}
+            Ask Question
+          </Button>
+          <Button type="button" variant="outline" disabled={isPending} onClick={() => resume(false)}>
+            <Play className="mr-2 h-4 w-4" />
+            Continue
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
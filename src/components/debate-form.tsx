@@ -18,6 +18,13 @@ import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Card,
   CardContent,
@@ -26,19 +33,33 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { Loader2, PlusCircle } from 'lucide-react';
-import { AddParticipantDialog } from './add-participant-dialog';
+import { AddParticipantDialog, type PersonaOption } from './add-participant-dialog';
+import { SourceTextsInput } from './source-texts-input';
 import { useToast } from '@/hooks/use-toast';
 import originalPersonas from '@/ai/personas.js';
+import { DEFAULT_TURN_ORDER, MAX_SEED, TURN_ORDER_LABELS, TURN_ORDER_STRATEGIES } from '@/ai/turn-order';
+import { DEBATE_FORMAT_IDS, DEBATE_FORMATS, DEFAULT_DEBATE_FORMAT } from '@/ai/formats';
+import { DEFAULT_TURN_LENGTH, MAX_TURN_WORDS, TURN_LENGTH_LABELS, TURN_LENGTH_PRESETS } from '@/ai/turn-length';
+import { DEBATE_LANGUAGES, DEFAULT_DEBATE_LANGUAGE, LANGUAGE_NAMES } from '@/ai/languages';
+import { STANCE_LABELS, STANCES, type Stance } from '@/ai/stances';
+import type { DebateRequest } from '@/lib/schemas';
 
-const initialPersonas = Object.entries(originalPersonas).map(([id, persona]: [string, any]) => ({
+const initialPersonas: PersonaOption[] = Object.entries(originalPersonas).map(([id, persona]: [string, any]) => ({
   id,
   name: persona.name,
+  model: persona.model,
+  ollamaModel: persona.ollamaModel,
+  fallbackModels: persona.fallbackModels,
 }));
 
 export const debateFormSchema = z.object({
   topic: z.string().min(3, {
     message: 'Topic must be at least 3 characters long.',
   }),
+  motion: z.string().max(300, 'Motion can be at most 300 characters long.')
+    .refine((value) => value.trim() === '' || value.trim().length >= 3, 'Motion must be at least 3 characters long.')
+    .default(''),
+  stances: z.record(z.enum([...STANCES, 'auto'])).default({}),
   rounds: z.coerce.number().int().min(1).max(5),
   participants: z.array(z.string()).refine((value) => value.length >= 2, {
     message: 'You must select at least two participants.',
@@ -46,10 +67,60 @@ export const debateFormSchema = z.object({
     message: 'You can select at most five participants.',
   }),
   generateAudio: z.boolean().default(true),
+  turnOrder: z.enum(TURN_ORDER_STRATEGIES).default(DEFAULT_TURN_ORDER),
+  seed: z.preprocess(
+    (value) => (value === '' || value === null ? undefined : value),
+    z.coerce.number().int().min(0).max(MAX_SEED, 'Seed must fit in 32 bits.').optional()
+  ),
+  format: z.enum(DEBATE_FORMAT_IDS).default(DEFAULT_DEBATE_FORMAT),
+  language: z.enum(DEBATE_LANGUAGES).default(DEFAULT_DEBATE_LANGUAGE),
+  moderation: z.enum(['open', 'directed']).default('open'),
+  crossExamination: z.boolean().default(false),
+  anachronismCheck: z.boolean().default(false),
+  interactive: z.boolean().default(false),
+  historicalTexts: z.array(z.string()).default([]),
+  turnLength: z.enum([...TURN_LENGTH_PRESETS, 'custom']).default(DEFAULT_TURN_LENGTH),
+  minWords: z.coerce.number().int().min(1).max(MAX_TURN_WORDS).default(30),
+  maxWords: z.coerce.number().int().min(1).max(MAX_TURN_WORDS).default(80),
+}).superRefine(({ format, participants, turnLength, minWords, maxWords }, ctx) => {
+  if (turnLength === 'custom' && minWords > maxWords) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['minWords'],
+      message: 'The minimum must not exceed the maximum.',
+    });
+  }
+  const { label, minParticipants, maxParticipants } = DEBATE_FORMATS[format];
+  if (participants.length < minParticipants || participants.length > maxParticipants) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['participants'],
+      message: minParticipants === maxParticipants
+        ? `The ${label} format needs exactly ${minParticipants} participants.`
+        : `The ${label} format needs ${minParticipants} to ${maxParticipants} participants.`,
+    });
+  }
 });
 
+// The custom word range only applies when "custom" is picked as the length,
+// and stances only when there is a motion. Participants left on "auto" get
+// their stance from the moderator.
+function toDebateRequest({ turnLength, minWords, maxWords, motion, stances, ...values }: z.infer<typeof debateFormSchema>): DebateRequest {
+  const trimmedMotion = motion.trim() || undefined;
+  return {
+    ...values,
+    turnLength: turnLength === 'custom' ? { minWords, maxWords } : turnLength,
+    motion: trimmedMotion,
+    stances: trimmedMotion
+      ? Object.fromEntries(
+          Object.entries(stances).filter(([id, stance]) => stance !== 'auto' && values.participants.includes(id))
+        ) as Record<string, Stance>
+      : undefined,
+  };
+}
+
 type DebateFormProps = {
-  onFormSubmit: (values: z.infer<typeof debateFormSchema>) => void;
+  onFormSubmit: (values: DebateRequest) => void;
   isPending: boolean;
 };
 
@@ -62,13 +133,26 @@ export function DebateForm({ onFormSubmit, isPending }: DebateFormProps) {
     resolver: zodResolver(debateFormSchema),
     defaultValues: {
       topic: "The Future of Humanity",
+      motion: '',
+      stances: {},
       rounds: 2,
       participants: ['tesla', 'nietzsche'],
       generateAudio: true,
+      turnOrder: DEFAULT_TURN_ORDER,
+      format: DEFAULT_DEBATE_FORMAT,
+      language: DEFAULT_DEBATE_LANGUAGE,
+      moderation: 'open',
+      crossExamination: false,
+      anachronismCheck: false,
+      interactive: false,
+      historicalTexts: [],
+      turnLength: DEFAULT_TURN_LENGTH,
+      minWords: 30,
+      maxWords: 80,
     },
   });
 
-  const handlePersonaAdded = (newPersona: { id: string; name: string }) => {
+  const handlePersonaAdded = (newPersona: PersonaOption) => {
     setPersonas((prev) => [...prev, newPersona]);
      // Also add the new participant to the selection
     const currentParticipants = form.getValues('participants');
@@ -89,7 +173,7 @@ export function DebateForm({ onFormSubmit, isPending }: DebateFormProps) {
         </CardHeader>
         <CardContent>
           <Form {...form}>
-            <form onSubmit={form.handleSubmit(onFormSubmit)} className="space-y-8">
+            <form onSubmit={form.handleSubmit((values) => onFormSubmit(toDebateRequest(values)))} className="space-y-8">
               <FormField
                 control={form.control}
                 name="topic"
@@ -104,6 +188,23 @@ export function DebateForm({ onFormSubmit, isPending }: DebateFormProps) {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="motion"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Motion</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., This house believes science will save humanity" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Optional. Participants argue for or against it, and the moderator names the sides.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="participants"
@@ -159,6 +260,109 @@ export function DebateForm({ onFormSubmit, isPending }: DebateFormProps) {
                 )}
               />
               
+              {form.watch('motion').trim() && form.watch('participants').length > 0 && (
+                <div className="space-y-3">
+                  <FormLabel className="text-base">Stances</FormLabel>
+                  <FormDescription>
+                    Leave a participant on Auto to let the moderator choose from what they historically believed.
+                  </FormDescription>
+                  {form.watch('participants').map((id) => (
+                    <FormField
+                      key={id}
+                      control={form.control}
+                      name={`stances.${id}`}
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between gap-4 space-y-0">
+                          <FormLabel className="font-normal">
+                            {personas.find((persona) => persona.id === id)?.name ?? id}
+                          </FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value ?? 'auto'}>
+                            <FormControl>
+                              <SelectTrigger className="w-40">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="auto">Auto</SelectItem>
+                              {STANCES.map((stance) => (
+                                <SelectItem key={stance} value={stance}>{STANCE_LABELS[stance]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                </div>
+              )}
+
+              <FormField
+                control={form.control}
+                name="historicalTexts"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Source Texts</FormLabel>
+                    <FormDescription>
+                      Optional letters, essays or speeches on the topic. Each participant&apos;s persona is refined against them before the debate.
+                    </FormDescription>
+                    <FormControl>
+                      <SourceTextsInput value={field.value} onChange={field.onChange} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="format"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Format</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {DEBATE_FORMAT_IDS.map((formatId) => (
+                          <SelectItem key={formatId} value={formatId}>{DEBATE_FORMATS[formatId].label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>{DEBATE_FORMATS[field.value].description}</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="language"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Language</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {DEBATE_LANGUAGES.map((language) => (
+                          <SelectItem key={language} value={language}>{LANGUAGE_NAMES[language]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Everyone speaks this language. Voices that can&apos;t speak it are replaced in the audio.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="rounds"
@@ -179,6 +383,202 @@ export function DebateForm({ onFormSubmit, isPending }: DebateFormProps) {
                 )}
               />
 
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="turnOrder"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Turn Order</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {TURN_ORDER_STRATEGIES.map((strategy) => (
+                            <SelectItem key={strategy} value={strategy}>{TURN_ORDER_LABELS[strategy]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="seed"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Seed</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          placeholder="Random"
+                          {...field}
+                          value={(field.value as number | undefined) ?? ''}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormDescription className="-mt-4">
+                Reuse a debate&apos;s seed to reproduce its speaking order.
+              </FormDescription>
+
+              <FormField
+                control={form.control}
+                name="turnLength"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Turn Length</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {TURN_LENGTH_PRESETS.map((preset) => (
+                          <SelectItem key={preset} value={preset}>{TURN_LENGTH_LABELS[preset]}</SelectItem>
+                        ))}
+                        <SelectItem value="custom">Custom word range</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Participants with their own length keep it. Turns far off the target are regenerated or trimmed.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {form.watch('turnLength') === 'custom' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="minWords"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Min Words</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} max={MAX_TURN_WORDS} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="maxWords"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Max Words</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} max={MAX_TURN_WORDS} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+
+              <FormField
+                control={form.control}
+                name="moderation"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">
+                        Directed Moderation
+                      </FormLabel>
+                      <FormDescription>
+                        The moderator picks who answers each question and whether others may rebut.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value === 'directed'}
+                        onCheckedChange={(checked) => field.onChange(checked ? 'directed' : 'open')}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="crossExamination"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">
+                        Cross-Examination
+                      </FormLabel>
+                      <FormDescription>
+                        Participants question each other directly before the closing statements.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="anachronismCheck"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">
+                        Anachronism Check
+                      </FormLabel>
+                      <FormDescription>
+                        Regenerate turns that mention what a participant could not have known. Adds a model call to every turn.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="interactive"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">
+                        Interactive Session
+                      </FormLabel>
+                      <FormDescription>
+                        Pause after each round so the audience can ask the participants a question.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="generateAudio"
@@ -219,6 +619,7 @@ export function DebateForm({ onFormSubmit, isPending }: DebateFormProps) {
       <AddParticipantDialog 
         isOpen={isDialogOpen}
         onOpenChange={setDialogOpen}
+        personas={personas}
         onPersonaAdded={handlePersonaAdded}
       />
     </>
@@ -0,0 +1,151 @@
+'use client';
+
+import { AlertCircle, CheckCircle2, Clock, Loader2, Pause } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { DebateJob, DebateJobStatus, DebateJobSummary } from '@/lib/jobs';
+import { cn } from '@/lib/utils';
+
+const stageLabels: Record<DebateJob['progress']['stage'], string> = {
+  queued: 'Waiting in queue',
+  enhance: 'Refining personas with source texts',
+  stances: 'Assigning stances on the motion',
+  intro: 'Moderator introduction',
+  round: 'Debate round',
+  outro: 'Moderator closing',
+  tts: 'Synthesizing speech',
+  ffmpeg: 'Assembling podcast (ffmpeg)',
+  done: 'Finished',
+};
+
+function StatusBadge({ status }: { status: DebateJobStatus }) {
+  switch (status) {
+    case 'queued':
+      return <Badge variant="outline"><Clock className="mr-1 h-3 w-3" />Queued</Badge>;
+    case 'running':
+      return <Badge variant="secondary"><Loader2 className="mr-1 h-3 w-3 animate-spin" />Running</Badge>;
+    case 'paused':
+      return <Badge variant="outline"><Pause className="mr-1 h-3 w-3" />Paused</Badge>;
+    case 'succeeded':
+      return <Badge><CheckCircle2 className="mr-1 h-3 w-3" />Done</Badge>;
+    case 'failed':
+      return <Badge variant="destructive"><AlertCircle className="mr-1 h-3 w-3" />Failed</Badge>;
+  }
+}
+
+type DebateJobProgressProps = {
+  job: DebateJob;
+};
+
+export function DebateJobProgress({ job }: DebateJobProgressProps) {
+  const { progress } = job;
+  const roundPercent = progress.totalRounds > 0 ? (progress.round / progress.totalRounds) * 100 : 0;
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="font-headline text-2xl tracking-wide">Generation Progress</CardTitle>
+          <StatusBadge status={job.status} />
+        </div>
+        <CardDescription>{job.input.topic}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {job.status === 'failed' && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Generation failed</AlertTitle>
+            <AlertDescription>{job.error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Stage</p>
+            <p className="font-semibold">{stageLabels[progress.stage]}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Current speaker</p>
+            <p className="font-semibold">{progress.speaker ?? '—'}</p>
+          </div>
+          <div className="col-span-2 space-y-2">
+            <p className="text-muted-foreground">
+              Round {progress.round} of {progress.totalRounds}
+            </p>
+            <Progress value={roundPercent} />
+          </div>
+          {job.input.generateAudio && (
+            <div className="col-span-2">
+              <p className="text-muted-foreground">Audio clips</p>
+              <p className="font-semibold">
+                {progress.clipsReady} ready
+                {progress.clipsFailed > 0 && `, ${progress.clipsFailed} failed`}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <p className="text-sm text-muted-foreground mb-2">Log</p>
+          <ScrollArea className="h-40 rounded-md border p-3">
+            <ul className="space-y-1 font-mono text-xs">
+              {job.logs.map((entry, index) => (
+                <li
+                  key={index}
+                  className={cn(
+                    entry.level === 'warn' && 'text-amber-600 dark:text-amber-400',
+                    entry.level === 'error' && 'text-destructive'
+                  )}
+                >
+                  <span className="text-muted-foreground">{new Date(entry.at).toLocaleTimeString()}</span>{' '}
+                  {entry.message}
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+type DebateJobListProps = {
+  jobs: DebateJobSummary[];
+  activeJobId: string | null;
+  onSelect: (jobId: string) => void;
+};
+
+export function DebateJobList({ jobs, activeJobId, onSelect }: DebateJobListProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-headline text-xl tracking-wide">Recent Jobs</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-2">
+          {jobs.map((job) => (
+            <li key={job.id}>
+              <button
+                type="button"
+                onClick={() => onSelect(job.id)}
+                className={cn(
+                  'w-full flex items-center justify-between gap-4 rounded-md border p-3 text-left hover:bg-muted transition-colors',
+                  job.id === activeJobId && 'border-primary'
+                )}
+              >
+                <div className="min-w-0">
+                  <p className="font-semibold truncate">{job.topic}</p>
+                  <p className="text-xs text-muted-foreground">{new Date(job.createdAt).toLocaleString()}</p>
+                </div>
+                <StatusBadge status={job.status} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
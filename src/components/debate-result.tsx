@@ -1,24 +1,104 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { Play, Pause, Download, UserCircle, Mic } from 'lucide-react';
+import { Play, Pause, Download, UserCircle, Mic, Loader2, CornerDownRight, ShieldAlert, ShieldCheck, BookOpen, ChevronDown } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Separator } from '@/components/ui/separator';
 import type { GenerateHistoricalDebateOutput } from '@/ai/flows/generate-historical-debate';
-import { cn } from '@/lib/utils';
+import { cn, formatTimestamp } from '@/lib/utils';
+import { groupBySide, STANCE_LABELS } from '@/ai/stances';
 
 type DebateData = GenerateHistoricalDebateOutput['data'];
+type TranscriptItem = DebateData['transcript'][number];
 
 type DebateResultProps = {
   data: DebateData;
+  /** True while turns are still being streamed in. */
+  isLive?: boolean;
 };
 
-export function DebateResult({ data }: DebateResultProps) {
+function StanceBadge({ assignment }: { assignment: NonNullable<DebateData['stances']>[number] }) {
+  return (
+    <Badge
+      variant={assignment.stance === 'con' ? 'destructive' : assignment.stance === 'pro' ? 'default' : 'outline'}
+      className="font-normal"
+      title={assignment.reason}
+    >
+      {STANCE_LABELS[assignment.stance]}
+    </Badge>
+  );
+}
+
+function AnachronismBadge({ review }: { review: NonNullable<TranscriptItem['anachronisms']> }) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button">
+          {review.resolved ? (
+            <Badge variant="outline" className="gap-1 font-normal">
+              <ShieldCheck className="h-3 w-3" />
+              Corrected
+            </Badge>
+          ) : (
+            <Badge variant="destructive" className="gap-1 font-normal">
+              <ShieldAlert className="h-3 w-3" />
+              Anachronism
+            </Badge>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 text-sm">
+        <p className="font-semibold mb-2">
+          {review.resolved
+            ? `Regenerated ${review.regenerations} time(s) to remove:`
+            : `Still present after ${review.regenerations} regeneration(s):`}
+        </p>
+        <ul className="space-y-2">
+          {review.findings.map((finding, index) => (
+            <li key={index}>
+              <span className="font-medium">{finding.concept}</span>
+              <span className="text-muted-foreground"> — {finding.reason}</span>
+            </li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function CitationFootnotes({ citations }: { citations: NonNullable<TranscriptItem['citations']> }) {
+  return (
+    <Collapsible className="mt-2">
+      <CollapsibleTrigger className="group flex items-center gap-1 text-xs text-muted-foreground hover:text-primary">
+        <BookOpen className="h-3 w-3" />
+        {citations.length} {citations.length === 1 ? 'source' : 'sources'}
+        <ChevronDown className="h-3 w-3 transition-transform group-data-[state=open]:rotate-180" />
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ol className="mt-2 space-y-2 text-xs list-decimal pl-5">
+          {citations.map((citation, index) => (
+            <li key={index}>
+              <span className="font-semibold">{citation.title}</span>
+              <span className="text-muted-foreground">, {citation.location}</span>
+              <blockquote className="mt-1 border-l-2 pl-2 italic text-muted-foreground">{citation.excerpt}</blockquote>
+            </li>
+          ))}
+        </ol>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+export function DebateResult({ data, isLive = false }: DebateResultProps) {
   const [activeAudioFile, setActiveAudioFile] = useState<string | null>(null);
   const audioRefs = useRef<Record<string, HTMLAudioElement>>({});
+  const podcastRef = useRef<HTMLAudioElement>(null);
 
   const getInitials = (name: string) => {
     return name.split(' ').map(n => n[0]).join('');
@@ -46,9 +126,23 @@ export function DebateResult({ data }: DebateResultProps) {
     }
   };
 
+  // Jump the full episode player to the start of a turn.
+  const seekPodcast = (seconds: number) => {
+    if (activeAudioFile && audioRefs.current[activeAudioFile]) {
+      audioRefs.current[activeAudioFile].pause();
+      setActiveAudioFile(null);
+    }
+    const podcast = podcastRef.current;
+    if (podcast) {
+      podcast.currentTime = seconds;
+      podcast.play();
+    }
+  };
+
   useEffect(() => {
     if (data.audioGenerated) {
-        // Pre-create audio elements and set up ended listeners
+        // Create audio elements for clips as they become available. Existing
+        // elements are kept so a playing clip isn't interrupted by new ones.
         data.transcript.forEach(turn => {
           if (turn.audioFile && !audioRefs.current[turn.audioFile]) {
             const audio = new Audio(`/${turn.audioFile}`);
@@ -56,24 +150,92 @@ export function DebateResult({ data }: DebateResultProps) {
             audioRefs.current[turn.audioFile] = audio;
           }
         });
-
-        return () => { // Cleanup on component unmount
-          Object.values(audioRefs.current).forEach(audio => {
-            audio.pause();
-            audio.removeEventListener('ended', () => setActiveAudioFile(null));
-            audio.src = '';
-          });
-          audioRefs.current = {};
-        };
     }
   }, [data.transcript, data.audioGenerated]);
 
+  const questionIds = new Set(data.transcript.filter(turn => turn?.questionTo).map(turn => turn.id));
+  const answersByQuestion: Record<string, TranscriptItem[]> = {};
+  data.transcript.forEach(turn => {
+    if (turn?.answerTo) {
+      (answersByQuestion[turn.answerTo] ??= []).push(turn);
+    }
+  });
+
+  const stanceBySpeaker = new Map((data.stances ?? []).map(assignment => [assignment.name, assignment]));
+
+  // Questions name their target by participant ID. The name is the speaker
+  // of the answer, or, while that is still being generated, the name the
+  // target's stance was recorded under.
+  const questionTarget = (turn: TranscriptItem) =>
+    answersByQuestion[turn.id]?.[0]?.speaker
+    ?? data.stances?.find(assignment => assignment.participantId === turn.questionTo)?.name;
+
+  const renderTurn = (turn: TranscriptItem) => (
+    <div className="flex gap-4">
+      <Avatar>
+        <AvatarImage data-ai-hint="historical person" src={`https://placehold.co/40x40.png`} />
+        <AvatarFallback>{getInitials(turn.speaker)}</AvatarFallback>
+      </Avatar>
+      <div className="flex-1">
+        <div className="flex items-center justify-between">
+          <div className="flex flex-wrap items-baseline gap-2">
+            <p className="font-bold">{turn.speaker}</p>
+            {stanceBySpeaker.has(turn.speaker) && <StanceBadge assignment={stanceBySpeaker.get(turn.speaker)!} />}
+            {turn.questionTo && (
+              <Badge variant="outline" className="gap-1 font-normal">
+                <CornerDownRight className="h-3 w-3" />
+                {questionTarget(turn) ? `Question to ${questionTarget(turn)}` : 'Question'}
+              </Badge>
+            )}
+            {turn.answerTo && (
+              <Badge variant="secondary" className="font-normal">Answer</Badge>
+            )}
+            {turn.anachronisms && <AnachronismBadge review={turn.anachronisms} />}
+            {turn.model && <span className="text-xs text-muted-foreground">{turn.model}</span>}
+            {data.podcast && turn.startTime !== undefined && (
+              <button
+                type="button"
+                onClick={() => seekPodcast(turn.startTime!)}
+                className="text-xs text-muted-foreground tabular-nums hover:text-primary hover:underline"
+                title="Play the episode from here"
+              >
+                {formatTimestamp(turn.startTime)}
+              </button>
+            )}
+          </div>
+          {data.audioGenerated && turn.audioFile && (
+            <Button variant="ghost" size="icon" onClick={() => togglePlay(turn.audioFile!)} className="h-8 w-8">
+              {activeAudioFile === turn.audioFile ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            </Button>
+          )}
+        </div>
+        <p className="text-muted-foreground mt-1">{turn.text}</p>
+        {turn.citations && turn.citations.length > 0 && <CitationFootnotes citations={turn.citations} />}
+      </div>
+    </div>
+  );
+
+  useEffect(() => {
+    return () => { // Cleanup on component unmount
+      Object.values(audioRefs.current).forEach(audio => {
+        audio.pause();
+        audio.src = '';
+      });
+      audioRefs.current = {};
+    };
+  }, []);
+
   return (
     <Card className="shadow-lg">
       <CardHeader>
-        <CardTitle className="font-headline text-2xl tracking-wide">Debate Ready</CardTitle>
+        <CardTitle className="font-headline text-2xl tracking-wide flex items-center gap-2">
+          {isLive && <Loader2 className="h-5 w-5 animate-spin text-primary" />}
+          {isLive ? "Debate in Progress" : "Debate Ready"}
+        </CardTitle>
         <CardDescription>
-          {data.audioGenerated ? "Listen to the full debate or browse the transcript." : "Browse the generated debate transcript."}
+          {isLive
+            ? "Turns appear as they are generated. Clips become playable once their audio is ready."
+            : data.audioGenerated ? "Listen to the full debate or browse the transcript." : "Browse the generated debate transcript."}
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -84,7 +246,7 @@ export function DebateResult({ data }: DebateResultProps) {
                 <h3 className="font-semibold text-lg">Full Debate Episode</h3>
                 <p className="text-sm text-muted-foreground">Duration: {data.duration}</p>
               </div>
-              <audio controls src={`/${data.podcast}`} className="w-full sm:w-auto">
+              <audio ref={podcastRef} controls src={`/${data.podcast}`} className="w-full sm:w-auto">
                 Your browser does not support the audio element.
               </audio>
               <Button asChild variant="secondary">
@@ -98,28 +260,41 @@ export function DebateResult({ data }: DebateResultProps) {
           </>
         )}
 
+        {data.motion && (
+          <div className="mb-6 space-y-1">
+            <p className="font-semibold">Motion: {data.motion}</p>
+            {groupBySide(data.stances ?? []).map(({ side, names }) => (
+              <p key={side} className="text-sm text-muted-foreground">{side}: {names.join(', ')}</p>
+            ))}
+          </div>
+        )}
+
         <div>
           <h3 className="text-xl font-headline font-semibold mb-4">Transcript</h3>
           <div className="space-y-6">
-            {data.transcript.map((turn, index) => (
-              <div key={index} className="flex gap-4">
-                <Avatar>
-                  <AvatarImage data-ai-hint="historical person" src={`https://placehold.co/40x40.png`} />
-                  <AvatarFallback>{getInitials(turn.speaker)}</AvatarFallback>
-                </Avatar>
-                <div className="flex-1">
-                  <div className="flex items-center justify-between">
-                    <p className="font-bold">{turn.speaker}</p>
-                    {data.audioGenerated && turn.audioFile && (
-                      <Button variant="ghost" size="icon" onClick={() => togglePlay(turn.audioFile!)} className="h-8 w-8">
-                        {activeAudioFile === turn.audioFile ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
-                      </Button>
-                    )}
-                  </div>
-                  <p className="text-muted-foreground mt-1">{turn.text}</p>
+            {data.transcript.map((turn, index) => {
+              // Answers are shown under the question they respond to.
+              if (turn && turn.answerTo && questionIds.has(turn.answerTo)) return null;
+              return turn && (
+                <div key={turn.id ?? index} className="space-y-4">
+                  {renderTurn(turn)}
+                  {turn.id && answersByQuestion[turn.id]?.map((answer) => (
+                    <div key={answer.id} className="ml-5 border-l-2 pl-4">
+                      {renderTurn(answer)}
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+            {isLive && (
+              <div className="flex gap-4 items-start">
+                <Skeleton className="h-10 w-10 rounded-full" />
+                <div className="flex-1 space-y-2">
+                  <Skeleton className="h-5 w-1/4" />
+                  <Skeleton className="h-4 w-full" />
                 </div>
               </div>
-            ))}
+            )}
           </div>
         </div>
       </CardContent>
@@ -0,0 +1,39 @@
+import Link from 'next/link';
+import { History, Library } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ThemeToggle } from '@/components/theme-toggle';
+
+export function SiteHeader() {
+  return (
+    <header className="py-6 px-4 md:px-8 border-b">
+      <div className="container mx-auto flex items-center gap-4">
+        <Link href="/" className="flex items-center gap-4">
+          <History className="h-8 w-8 text-primary" />
+          <h1 className="text-3xl font-headline font-bold text-primary">
+            HistoriCast
+          </h1>
+        </Link>
+        <p className="text-muted-foreground mt-1.5 hidden md:block">
+          Generate virtual debate podcasts between historical figures.
+        </p>
+        <div className="ml-auto flex items-center gap-2">
+          <Button asChild variant="ghost">
+            <Link href="/debates">
+              <Library className="mr-2 h-4 w-4" />
+              Library
+            </Link>
+          </Button>
+          <ThemeToggle />
+        </div>
+      </div>
+    </header>
+  );
+}
+
+export function SiteFooter() {
+  return (
+    <footer className="text-center p-4 text-muted-foreground text-sm border-t">
+      Powered by Genkit, ElevenLabs, and Next.js.
+    </footer>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { FileText, Plus, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { MAX_HISTORICAL_TEXT_LENGTH, MAX_HISTORICAL_TEXTS } from '@/ai/sources';
+
+type SourceTextsInputProps = {
+  value: string[];
+  onChange: (texts: string[]) => void;
+};
+
+/** Collects historical source texts, pasted or uploaded as plain text files. */
+export function SourceTextsInput({ value, onChange }: SourceTextsInputProps) {
+  const [draft, setDraft] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const isFull = value.length >= MAX_HISTORICAL_TEXTS;
+
+  const addTexts = (texts: string[]) => {
+    const accepted = texts
+      .map((text) => text.trim())
+      .filter(Boolean)
+      .slice(0, MAX_HISTORICAL_TEXTS - value.length);
+    const tooLong = accepted.filter((text) => text.length > MAX_HISTORICAL_TEXT_LENGTH);
+    if (tooLong.length > 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Text too long',
+        description: `Each source text can be at most ${MAX_HISTORICAL_TEXT_LENGTH.toLocaleString()} characters.`,
+      });
+      return false;
+    }
+    onChange([...value, ...accepted]);
+    return true;
+  };
+
+  const handleAddDraft = () => {
+    if (addTexts([draft])) {
+      setDraft('');
+    }
+  };
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    addTexts(await Promise.all(files.map((file) => file.text())));
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.length > 0 && (
+        <ul className="space-y-2">
+          {value.map((text, index) => (
+            <li key={index} className="flex items-start gap-2 rounded-md border p-2 text-sm">
+              <FileText className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+              <p className="flex-1 line-clamp-2 text-muted-foreground">{text}</p>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 shrink-0"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+              >
+                <X className="h-4 w-4" />
+                <span className="sr-only">Remove text</span>
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <Textarea
+        placeholder="Paste a letter, essay or speech..."
+        className="min-h-[80px]"
+        value={draft}
+        disabled={isFull}
+        onChange={(e) => setDraft(e.target.value)}
+      />
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" disabled={isFull || !draft.trim()} onClick={handleAddDraft}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Text
+        </Button>
+        <Button type="button" variant="outline" size="sm" disabled={isFull} onClick={() => fileInputRef.current?.click()}>
+          <Upload className="mr-2 h-4 w-4" />
+          Upload Files
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".txt,.md,text/plain,text/markdown"
+          multiple
+          className="hidden"
+          onChange={handleFiles}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import personas from '@/ai/personas.js';
+import { DebateInputSchema } from '@/lib/schemas';
+import type { z } from 'zod';
+
+export function errorResponse(
+  status: number,
+  code: string,
+  message: string,
+  extra: Record<string, unknown> = {}
+) {
+  return NextResponse.json(
+    { status: 'error', error: { code, message }, ...extra },
+    { status }
+  );
+}
+
+/**
+ * Parses and validates a debate request body. Returns either the validated
+ * input or a ready-made 400/422 response for the route to return as is.
+ */
+export async function parseDebateRequest(
+  request: NextRequest
+): Promise<
+  | { input: z.infer<typeof DebateInputSchema>; response?: undefined }
+  | { input?: undefined; response: NextResponse }
+> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { response: errorResponse(400, 'invalid_json', 'Request body must be valid JSON.') };
+  }
+
+  const validationResult = DebateInputSchema.safeParse(body);
+  if (!validationResult.success) {
+    return {
+      response: errorResponse(
+        422,
+        'validation_failed',
+        validationResult.error.errors.map((e) => e.message).join(', '),
+        { issues: validationResult.error.errors }
+      ),
+    };
+  }
+
+  const input = validationResult.data;
+  const unknownParticipants = input.participants.filter((id) => !(personas as any)[id]);
+  if (unknownParticipants.length > 0) {
+    return {
+      response: errorResponse(
+        422,
+        'validation_failed',
+        `Unknown participant ID(s): ${unknownParticipants.join(', ')}`
+      ),
+    };
+  }
+
+  // Interactive debates pause for input from the app, which only job-backed
+  // debates can receive.
+  if (input.interactive) {
+    return {
+      response: errorResponse(
+        422,
+        'interactive_unsupported',
+        'Interactive debates can only be run from the app.'
+      ),
+    };
+  }
+
+  return { input };
+}
@@ -0,0 +1,74 @@
+import type { DebateRecord } from '@/ai/debate-store';
+import { DEBATE_FORMATS } from '@/ai/formats';
+import { groupBySide } from '@/ai/stances';
+import { formatTimestamp } from '@/lib/utils';
+
+export const EXPORT_FORMATS = ['markdown', 'json'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+};
+
+/**
+ * A debate as Markdown: a header with the debate's details, then the
+ * transcript with each turn's citations as numbered footnotes.
+ */
+export function debateToMarkdown(record: DebateRecord): string {
+  const { data } = record;
+  const lines = [`# ${record.input.topic}`, ''];
+
+  lines.push(`- Date: ${new Date(record.createdAt).toISOString().slice(0, 10)}`);
+  if (data.format) {
+    lines.push(`- Format: ${DEBATE_FORMATS[data.format].label}`);
+  }
+  lines.push(`- Moderator: ${record.moderator.name}`);
+  lines.push(`- Participants: ${record.participants.map((p) => p.name).join(', ')}`);
+  if (data.motion) {
+    lines.push(`- Motion: ${data.motion}`);
+    for (const { side, names } of groupBySide(data.stances ?? [])) {
+      lines.push(`  - ${side}: ${names.join(', ')}`);
+    }
+  }
+  if (data.podcast) {
+    lines.push(`- Duration: ${data.duration}`);
+  }
+  lines.push('', '## Transcript', '');
+
+  const footnotes: string[] = [];
+  for (const turn of data.transcript) {
+    const timestamp = turn.startTime !== undefined ? ` (${formatTimestamp(turn.startTime)})` : '';
+    const markers = (turn.citations ?? []).map((citation) => {
+      footnotes.push(`[^${footnotes.length + 1}]: *${citation.title}*, ${citation.location} (${citation.source}). "${citation.excerpt}"`);
+      return `[^${footnotes.length}]`;
+    });
+    lines.push(`**${turn.speaker}**${timestamp}: ${turn.text}${markers.join('')}`, '');
+  }
+
+  if (footnotes.length > 0) {
+    lines.push(...footnotes, '');
+  }
+  return lines.join('\n');
+}
+
+/** A debate as JSON: its details and the full transcript, citations included. */
+export function debateToJson(record: DebateRecord): string {
+  const { data } = record;
+  return JSON.stringify({
+    id: record.id,
+    topic: record.input.topic,
+    createdAt: record.createdAt,
+    completedAt: record.completedAt,
+    format: data.format,
+    motion: data.motion,
+    stances: data.stances,
+    moderator: record.moderator,
+    participants: record.participants,
+    podcast: data.podcast || null,
+    durationSeconds: data.durationSeconds,
+    modelCalls: data.modelCalls,
+    transcript: data.transcript,
+  }, null, 2);
+}
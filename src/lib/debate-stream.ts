@@ -0,0 +1,10 @@
+import type {
+  DebateStreamChunk,
+  GenerateHistoricalDebateOutput,
+} from '@/ai/flows/generate-historical-debate';
+
+/** An event sent by the `/api/v1/historicalDebate/stream` endpoint. */
+export type DebateStreamEvent =
+  | DebateStreamChunk
+  | { type: 'done'; data: GenerateHistoricalDebateOutput['data'] }
+  | { type: 'error'; message: string };
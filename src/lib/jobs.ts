@@ -0,0 +1,233 @@
+import {
+  generateHistoricalDebate,
+  type DebateStreamChunk,
+  type GenerateHistoricalDebateInput,
+  type GenerateHistoricalDebateOutput,
+} from '@/ai/flows/generate-historical-debate';
+import { createDebateId } from '@/ai/storage';
+import { createSeed, DEFAULT_TURN_ORDER } from '@/ai/turn-order';
+import { countFormatRounds, DEFAULT_DEBATE_FORMAT } from '@/ai/formats';
+import { resumeDebate } from '@/ai/audience';
+
+type DebateData = GenerateHistoricalDebateOutput['data'];
+
+export type DebateJobStatus = 'queued' | 'running' | 'paused' | 'succeeded' | 'failed';
+
+export type DebateJobStage = 'queued' | 'enhance' | 'stances' | 'intro' | 'round' | 'outro' | 'tts' | 'ffmpeg' | 'done';
+
+export type DebateJobLogEntry = {
+  at: string;
+  level: 'info' | 'warn' | 'error';
+  message: string;
+};
+
+export type DebateJob = {
+  id: string;
+  input: GenerateHistoricalDebateInput;
+  status: DebateJobStatus;
+  createdAt: string;
+  updatedAt: string;
+  progress: {
+    stage: DebateJobStage;
+    round: number;
+    totalRounds: number;
+    speaker: string | null;
+    clipsReady: number;
+    clipsFailed: number;
+  };
+  logs: DebateJobLogEntry[];
+  /** Partial while the job runs, the flow's final output once it succeeds. */
+  data: DebateData;
+  error?: string;
+};
+
+export type DebateJobSummary = Pick<DebateJob, 'id' | 'status' | 'createdAt' | 'updatedAt'> & {
+  topic: string;
+};
+
+type JobQueueState = {
+  jobs: Map<string, DebateJob>;
+  queue: string[];
+  /** Jobs holding a slot: running ones, not those paused for the audience. */
+  running: number;
+};
+// Kept on globalThis so jobs outlive module reloads in the dev server. Jobs
+// live for the lifetime of the server process; clients find them again after a
+// page reload by ID.
+const store = globalThis as typeof globalThis & { __debateJobs?: JobQueueState };
+const state: JobQueueState = (store.__debateJobs ??= { jobs: new Map(), queue: [], running: 0 });
+
+// Local models usually saturate the machine on their own, so run debates one
+// at a time unless told otherwise.
+const concurrency = Math.max(1, Number(process.env.DEBATE_JOB_CONCURRENCY) || 1);
+
+function touch(job: DebateJob) {
+  job.updatedAt = new Date().toISOString();
+}
+
+function log(job: DebateJob, level: DebateJobLogEntry['level'], message: string) {
+  job.logs.push({ at: new Date().toISOString(), level, message });
+  touch(job);
+}
+
+// A job paused for the audience may wait for a long time, so it gives up its
+// slot to the queue and takes one back when it resumes, even if that briefly
+// puts more jobs than `concurrency` to work.
+function pause(job: DebateJob) {
+  job.status = 'paused';
+  state.running--;
+  pump();
+}
+
+function unpause(job: DebateJob) {
+  if (job.status === 'paused') {
+    job.status = 'running';
+    state.running++;
+  }
+}
+
+function applyChunk(job: DebateJob, chunk: DebateStreamChunk) {
+  if (chunk.type !== 'paused') {
+    unpause(job);
+  }
+  switch (chunk.type) {
+    case 'progress':
+      job.progress.stage = chunk.stage;
+      if (chunk.round !== undefined) job.progress.round = chunk.round;
+      if (chunk.speaker !== undefined) job.progress.speaker = chunk.speaker;
+      log(job, 'info', chunk.message);
+      break;
+    case 'warning':
+      log(job, 'warn', chunk.message);
+      break;
+    case 'paused':
+      pause(job);
+      job.progress.round = chunk.round;
+      job.progress.speaker = null;
+      log(job, 'info', chunk.message);
+      break;
+    case 'turn':
+      job.data.transcript[chunk.index] = chunk.turn;
+      touch(job);
+      break;
+    case 'audio':
+      job.data.transcript[chunk.index] = { ...job.data.transcript[chunk.index], audioFile: chunk.audioFile };
+      job.progress.clipsReady++;
+      touch(job);
+      break;
+    case 'clipFailed':
+      job.progress.clipsFailed++;
+      log(job, 'warn', chunk.message);
+      break;
+  }
+}
+
+async function runJob(job: DebateJob) {
+  job.status = 'running';
+  log(job, 'info', 'Job started.');
+  try {
+    const result = await generateHistoricalDebate(job.input, {
+      onChunk: (chunk) => applyChunk(job, chunk),
+    });
+    unpause(job);
+    job.data = result.data;
+    job.status = 'succeeded';
+    job.progress.stage = 'done';
+    job.progress.speaker = null;
+    log(job, 'info', 'Job finished.');
+  } catch (error) {
+    console.error(`Debate job ${job.id} failed:`, error);
+    unpause(job);
+    job.status = 'failed';
+    job.error = error instanceof Error ? error.message : 'An unexpected error occurred during debate generation.';
+    log(job, 'error', job.error);
+  }
+}
+
+function pump() {
+  while (state.running < concurrency && state.queue.length > 0) {
+    const job = state.jobs.get(state.queue.shift()!);
+    if (!job) continue;
+    state.running++;
+    runJob(job).finally(() => {
+      state.running--;
+      pump();
+    });
+  }
+}
+
+/**
+ * Queues a debate for generation and returns immediately. The job runs in the
+ * background of the server process; poll it with `getDebateJob`.
+ */
+export function enqueueDebateJob(input: GenerateHistoricalDebateInput): DebateJob {
+  const now = new Date().toISOString();
+  const id = createDebateId();
+  const turnOrder = input.turnOrder ?? DEFAULT_TURN_ORDER;
+  const format = input.format ?? DEFAULT_DEBATE_FORMAT;
+  const seed = input.seed ?? createSeed();
+  const job: DebateJob = {
+    id,
+    // The job ID doubles as the debate ID, so the job's audio lands in its own
+    // storage namespace. The seed is fixed up front so it shows while running.
+    input: { ...input, debateId: id, format, turnOrder, seed },
+    status: 'queued',
+    createdAt: now,
+    updatedAt: now,
+    progress: {
+      stage: 'queued',
+      round: 0,
+      totalRounds: countFormatRounds(format, input.rounds, { crossExamination: input.crossExamination }),
+      speaker: null,
+      clipsReady: 0,
+      clipsFailed: 0,
+    },
+    logs: [],
+    data: {
+      id,
+      transcript: [],
+      podcast: '',
+      duration: '0:00',
+      durationSeconds: 0,
+      audioGenerated: input.generateAudio,
+      format,
+      turnOrder: { strategy: turnOrder, seed, rounds: [] },
+    },
+  };
+  log(job, 'info', `Queued debate on "${input.topic}".`);
+  state.jobs.set(job.id, job);
+  state.queue.push(job.id);
+  pump();
+  return job;
+}
+
+/**
+ * Resumes an interactive job that is paused between rounds, optionally with
+ * an audience question for the next round. Returns false if the job isn't
+ * paused.
+ */
+export function resumeDebateJob(id: string, question?: string): boolean {
+  const job = state.jobs.get(id);
+  if (job?.status !== 'paused' || !resumeDebate(id, question)) {
+    return false;
+  }
+  unpause(job);
+  log(job, 'info', question?.trim() ? `Audience asked: "${question.trim()}"` : 'Continuing without an audience question.');
+  return true;
+}
+
+export function getDebateJob(id: string): DebateJob | undefined {
+  return state.jobs.get(id);
+}
+
+export function listDebateJobs(): DebateJobSummary[] {
+  return [...state.jobs.values()]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(({ id, status, createdAt, updatedAt, input }) => ({
+      id,
+      status,
+      createdAt,
+      updatedAt,
+      topic: input.topic,
+    }));
+}
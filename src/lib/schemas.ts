@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { MAX_SEED, TURN_ORDER_STRATEGIES } from '@/ai/turn-order';
+import { DEBATE_FORMAT_IDS, DEBATE_FORMATS, DEFAULT_DEBATE_FORMAT } from '@/ai/formats';
+import { MAX_TURN_WORDS, TURN_LENGTH_PRESETS } from '@/ai/turn-length';
+import { MAX_HISTORICAL_TEXT_LENGTH, MAX_HISTORICAL_TEXTS } from '@/ai/sources';
+import { MAX_RETRIEVAL_PASSAGES } from '@/ai/corpus';
+import { DEBATE_LANGUAGES } from '@/ai/languages';
+import { STANCES } from '@/ai/stances';
+import { isQualifiedModelRef } from '@/ai/models';
+import { DEFAULT_RETRY_POLICY, MAX_RETRIES } from '@/ai/llm-call';
+import { MAX_OUTPUT_TOKENS, MAX_STOP_SEQUENCES, MAX_TEMPERATURE } from '@/ai/generation-config';
+
+export const TurnLengthSchema = z.union([
+  z.enum(TURN_LENGTH_PRESETS),
+  z.object({
+    minWords: z.number().int().min(1).max(MAX_TURN_WORDS, `Turns can be at most ${MAX_TURN_WORDS} words.`),
+    maxWords: z.number().int().min(1).max(MAX_TURN_WORDS, `Turns can be at most ${MAX_TURN_WORDS} words.`),
+  }).refine(({ minWords, maxWords }) => minWords <= maxWords, {
+    message: "The minimum word count must not exceed the maximum.",
+    path: ['minWords'],
+  }),
+]);
+
+export const GenerationConfigSchema = z.object({
+  temperature: z.number().min(0).max(MAX_TEMPERATURE, `Temperature can be at most ${MAX_TEMPERATURE}.`).optional(),
+  topP: z.number().min(0).max(1, "Top P can be at most 1.").optional(),
+  maxOutputTokens: z.number().int().min(1).max(MAX_OUTPUT_TOKENS, `Max output tokens can be at most ${MAX_OUTPUT_TOKENS}.`).optional(),
+  seed: z.number().int().min(0).max(MAX_SEED, "Seed must fit in 32 bits.").optional()
+    .describe('Makes sampling repeatable on providers that take a seed.'),
+  stopSequences: z.array(z.string().min(1)).max(MAX_STOP_SEQUENCES, `Give at most ${MAX_STOP_SEQUENCES} stop sequences.`).optional(),
+});
+
+/** Overrides of the default retry policy. Unset values keep the default. */
+export const RetryPolicySchema = z.object({
+  timeoutMs: z.number().int().min(1000, "The time limit must be at least 1000 ms.").optional()
+    .describe(`How long one model call may take. Defaults to ${DEFAULT_RETRY_POLICY.timeoutMs} ms.`),
+  maxRetries: z.number().int().min(0).max(MAX_RETRIES).optional()
+    .describe(`Retries of a call that failed in a way that may pass, such as a rate limit or a timeout. Defaults to ${DEFAULT_RETRY_POLICY.maxRetries}.`),
+  initialBackoffMs: z.number().int().min(0).optional()
+    .describe(`The wait before the first retry, doubled for each one after. Defaults to ${DEFAULT_RETRY_POLICY.initialBackoffMs} ms.`),
+  maxBackoffMs: z.number().int().min(0).optional()
+    .describe(`The longest wait between retries. Defaults to ${DEFAULT_RETRY_POLICY.maxBackoffMs} ms.`),
+});
+
+/**
+ * Validation rules for a debate request. Shared by the `createDebate` server
+ * action and the REST endpoint so both entry points accept the same input.
+ */
+export const DebateInputSchema = z.object({
+  topic: z.string().min(3, "Topic must be at least 3 characters long."),
+  rounds: z.coerce.number().int().min(1).max(5),
+  participants: z.array(z.string())
+    .min(2, "Select at least two participants.")
+    .max(5, "Select at most five participants."),
+  generateAudio: z.boolean(),
+  turnOrder: z.enum(TURN_ORDER_STRATEGIES).optional(),
+  seed: z.number().int().min(0).max(MAX_SEED, "Seed must fit in 32 bits.").optional(),
+  format: z.enum(DEBATE_FORMAT_IDS).optional(),
+  crossExamination: z.boolean().optional(),
+  turnLength: TurnLengthSchema.optional(),
+  generationConfig: GenerationConfigSchema.optional(),
+  context: z.object({
+    recentTurns: z.number().int().min(1).max(50).optional(),
+    maxTokens: z.number().int().min(100, "The token budget must be at least 100.").optional(),
+    maxChars: z.number().int().min(400, "The character budget must be at least 400.").optional(),
+  }).optional(),
+  retryPolicy: RetryPolicySchema.optional(),
+  anachronismCheck: z.boolean().optional(),
+  anachronismRetries: z.number().int().min(0).max(5).optional(),
+  historicalTexts: z.array(
+    z.string().min(1).max(MAX_HISTORICAL_TEXT_LENGTH, `Each source text can be at most ${MAX_HISTORICAL_TEXT_LENGTH} characters.`)
+  ).max(MAX_HISTORICAL_TEXTS, `Provide at most ${MAX_HISTORICAL_TEXTS} source texts.`).optional(),
+  retrievalPassages: z.number().int().min(0).max(MAX_RETRIEVAL_PASSAGES).optional(),
+  motion: z.string().trim().min(3, "Motion must be at least 3 characters long.").max(300, "Motion can be at most 300 characters long.").optional(),
+  stances: z.record(z.enum(STANCES)).optional(),
+  language: z.enum(DEBATE_LANGUAGES).optional(),
+  interactive: z.boolean().optional(),
+  moderation: z.enum(['open', 'directed']).optional(),
+}).superRefine(({ format, participants, motion, stances }, ctx) => {
+  if (stances && Object.keys(stances).length > 0 && !motion?.trim()) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['stances'],
+      message: "Stances need a motion to take sides on.",
+    });
+  }
+  for (const id of Object.keys(stances ?? {}).filter((id) => !participants.includes(id))) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['stances', id],
+      message: `'${id}' is given a stance but is not a participant.`,
+    });
+  }
+  const { label, minParticipants, maxParticipants } = DEBATE_FORMATS[format ?? DEFAULT_DEBATE_FORMAT];
+  if (participants.length < minParticipants || participants.length > maxParticipants) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['participants'],
+      message: minParticipants === maxParticipants
+        ? `The ${label} format needs exactly ${minParticipants} participants.`
+        : `The ${label} format needs ${minParticipants} to ${maxParticipants} participants.`,
+    });
+  }
+});
+
+export type DebateRequest = z.infer<typeof DebateInputSchema>;
+
+const year = z.number().int().min(-3000).max(new Date().getFullYear());
+
+/**
+ * Validation rules for a new participant. A persona is described either by
+ * its structured fields, from which the system prompt is built, or by a
+ * custom system prompt that replaces the template.
+ */
+export const PersonaInputSchema = z.object({
+  id: z.string().min(3, "ID must be at least 3 characters long.").regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "ID can only contain lowercase letters, numbers, and hyphens."),
+  name: z.string().min(3, "Name must be at least 3 characters long."),
+  birthYear: year.optional(),
+  deathYear: year.optional(),
+  era: z.string().optional(),
+  nationality: z.string().optional(),
+  field: z.string().optional(),
+  style: z.string().optional(),
+  keyConcepts: z.array(z.string().min(1)).optional(),
+  works: z.array(z.string().min(1)).optional(),
+  rivals: z.array(z.string().min(1)).optional(),
+  knowledgeLimits: z.array(z.string().min(1)).optional(),
+  language: z.string().optional(),
+  notes: z.string().optional(),
+  systemPrompt: z.string().min(10, "System prompt must be at least 10 characters long.").optional(),
+  voiceId: z.string().min(1, "Please select a voice."),
+  model: z.string().min(1, "Please select a model.").refine(isQualifiedModelRef, "Name the model with its provider, e.g. ollama/mistral."),
+  fallbackModels: z.array(z.string().refine(isQualifiedModelRef, "Name each fallback model with its provider, e.g. ollama/mistral.")).optional(),
+  turnLength: z.enum(TURN_LENGTH_PRESETS).optional(),
+  generationConfig: GenerationConfigSchema.optional(),
+}).superRefine(({ birthYear, deathYear, field, systemPrompt }, ctx) => {
+  if (!field && !systemPrompt) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['field'],
+      message: "Describe the participant's field of work, or give a custom system prompt.",
+    });
+  }
+  if (birthYear !== undefined && deathYear !== undefined && deathYear < birthYear) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['deathYear'],
+      message: "The year of death must not precede the year of birth.",
+    });
+  }
+});
+
+export type PersonaInput = z.infer<typeof PersonaInputSchema>;